@@ -0,0 +1,39 @@
+﻿using Microsoft.AspNetCore.Authentication.JwtBearer;
+using Microsoft.IdentityModel.JsonWebTokens;
+using Orderflow.Shared.Common;
+using StackExchange.Redis;
+using System.Security.Claims;
+
+namespace Orderflow.ApiGateway.Extensions;
+
+public static class SessionRevocationExtensions
+{
+    /// <summary>
+    /// Rejects tokens issued before the user's last "sign out other sessions" request.
+    /// Identity stores the revocation in Redis (see SessionRevocation).
+    /// </summary>
+    public static void RejectRevokedSessions(this JwtBearerEvents events)
+    {
+        events.OnTokenValidated = async context =>
+        {
+            var userId = context.Principal?.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+            {
+                return;
+            }
+
+            var redis = context.HttpContext.RequestServices.GetRequiredService<IConnectionMultiplexer>();
+            var revokedBefore = await redis.GetDatabase().StringGetAsync(SessionRevocation.GetKey(userId));
+            if (revokedBefore.IsNullOrEmpty)
+            {
+                return;
+            }
+
+            var issuedAt = context.Principal!.FindFirst(JwtRegisteredClaimNames.Iat)?.Value;
+            if (SessionRevocation.IsRevoked(issuedAt, (long)revokedBefore))
+            {
+                context.Fail("The session has been revoked");
+            }
+        };
+    }
+}
@@ -26,7 +26,9 @@ public static class YarpExtensions
             {
                 policy.AllowAnyOrigin()
                       .AllowAnyHeader()
-                      .AllowAnyMethod();
+                      .AllowAnyMethod()
+                      // Expose catalog pagination headers to the browser
+                      .WithExposedHeaders("X-Total-Count", "X-Page", "X-Page-Size");
             });
         });
 
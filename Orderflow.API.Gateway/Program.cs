@@ -13,7 +13,8 @@ builder.AddRedisClient("cache");
 builder.Services.AddGatewayCors();
 
 // JWT authentication from shared extensions > jwauthenticationextensions. 
-builder.Services.AddJwtAuthentication(builder.Configuration);
+// Tokens revoked via "sign out other sessions" are rejected here
+builder.Services.AddJwtAuthentication(builder.Configuration, events => events.RejectRevokedSessions());
 
 // Authorization policies (authenticated, admin, customer)
 builder.Services.AddGatewayAuthorizationPolicies();
@@ -0,0 +1,120 @@
+﻿using System.Security.Claims;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.Extensions.Logging;
+using Moq;
+using Orderflow.Identity.DTOs.Users.Requests;
+using Orderflow.Identity.Services.Users;
+using Orderflow.Identity.Validators.Users;
+using Orderflow.Shared.Common;
+using OrderFlow.Identity.Controllers;
+
+namespace Orderflow.Identity.Tests.Controllers;
+
+[TestFixture]
+public class AdminUserControllerTests
+{
+    private const string AdminId = "admin-123";
+
+    private Mock<IUserService> _userServiceMock;
+    private LockUserRequestValidator _lockValidator;
+    private AdminUserController _controller;
+
+    [SetUp]
+    public void SetUp()
+    {
+        _userServiceMock = new Mock<IUserService>();
+        _lockValidator = new LockUserRequestValidator();
+
+        _controller = new AdminUserController(
+            _userServiceMock.Object,
+            Mock.Of<ILogger<AdminUserController>>())
+        {
+            // Admin autenticado que hace la petición
+            ControllerContext = new ControllerContext
+            {
+                HttpContext = new DefaultHttpContext
+                {
+                    User = new ClaimsPrincipal(new ClaimsIdentity(
+                        [new Claim(ClaimTypes.NameIdentifier, AdminId)], "Test"))
+                }
+            }
+        };
+    }
+
+    #region LockUser
+
+    [Test]
+    public async Task LockUser_OwnAccount_ReturnsBadRequestWithoutLocking()
+    {
+        // Act
+        var result = await _controller.LockUser(AdminId, _lockValidator, new LockUserRequest());
+
+        // Assert
+        var badRequest = result as BadRequestObjectResult;
+        Assert.That(badRequest, Is.Not.Null);
+        var problem = badRequest!.Value as ProblemDetails;
+        Assert.That(problem!.Detail, Is.EqualTo("You cannot lock your own account"));
+
+        _userServiceMock.Verify(
+            s => s.LockUserAsync(It.IsAny<string>(), It.IsAny<DateTimeOffset?>()),
+            Times.Never);
+    }
+
+    [Test]
+    public async Task LockUser_WithReason_LocksUser()
+    {
+        // Arrange
+        var lockoutEnd = DateTimeOffset.UtcNow.AddDays(7);
+        var request = new LockUserRequest { LockoutEnd = lockoutEnd, Reason = "Pedidos fraudulentos" };
+
+        _userServiceMock
+            .Setup(s => s.LockUserAsync("user-456", lockoutEnd))
+            .ReturnsAsync(ServiceResult.Success());
+
+        // Act
+        var result = await _controller.LockUser("user-456", _lockValidator, request);
+
+        // Assert
+        Assert.That(result, Is.InstanceOf<NoContentResult>());
+        _userServiceMock.Verify(s => s.LockUserAsync("user-456", lockoutEnd), Times.Once);
+    }
+
+    [Test]
+    public async Task LockUser_WithoutRequest_LocksIndefinitely()
+    {
+        // Arrange
+        _userServiceMock
+            .Setup(s => s.LockUserAsync("user-456", DateTimeOffset.MaxValue))
+            .ReturnsAsync(ServiceResult.Success());
+
+        // Act
+        var result = await _controller.LockUser("user-456", _lockValidator);
+
+        // Assert
+        Assert.That(result, Is.InstanceOf<NoContentResult>());
+        _userServiceMock.Verify(s => s.LockUserAsync("user-456", DateTimeOffset.MaxValue), Times.Once);
+    }
+
+    [Test]
+    public async Task LockUser_ReasonTooLong_ReturnsValidationProblemWithoutLocking()
+    {
+        // Arrange
+        var request = new LockUserRequest { Reason = new string('x', 501) };
+
+        // Act
+        var result = await _controller.LockUser("user-456", _lockValidator, request);
+
+        // Assert
+        var objectResult = result as ObjectResult;
+        Assert.That(objectResult?.Value, Is.InstanceOf<ValidationProblemDetails>());
+        var problem = (ValidationProblemDetails)objectResult!.Value!;
+        Assert.That(problem.Errors.ContainsKey(nameof(LockUserRequest.Reason)), Is.True);
+
+        _userServiceMock.Verify(
+            s => s.LockUserAsync(It.IsAny<string>(), It.IsAny<DateTimeOffset?>()),
+            Times.Never);
+    }
+
+    #endregion
+}
@@ -2,6 +2,7 @@
 using Microsoft.AspNetCore.Authentication;
 using Microsoft.AspNetCore.Http;
 using Microsoft.AspNetCore.Identity;
+using Microsoft.Extensions.Configuration;
 using Microsoft.Extensions.Logging;
 using Microsoft.Extensions.Options;
 using Moq; 
@@ -9,7 +10,9 @@ using NUnit.Framework;
 using Orderflow.Identity.DTOs.Auth;
 using Orderflow.Identity.Services.Auth;
 using Orderflow.Identity.Services.Common;
+using Orderflow.Shared.Common;
 using Orderflow.Shared.Events;
+using System.IdentityModel.Tokens.Jwt;
 
 
 namespace Orderflow.Api.Identity.Test
@@ -20,6 +23,7 @@ namespace Orderflow.Api.Identity.Test
         private Mock<UserManager<IdentityUser>> _userManagerMock;
         private Mock<SignInManager<IdentityUser>> _signInManagerMock;
         private Mock<ITokenService> _tokenServiceMock;
+        private Mock<ISessionRevocationStore> _sessionRevocationStoreMock;
         private Mock<IPublishEndpoint> _publishEndpointMock;
         private Mock<ILogger<AuthService>> _loggerMock;
 
@@ -62,6 +66,7 @@ namespace Orderflow.Api.Identity.Test
             );
 
             _tokenServiceMock = new Mock<ITokenService>();
+            _sessionRevocationStoreMock = new Mock<ISessionRevocationStore>();
             _publishEndpointMock = new Mock<IPublishEndpoint>();
             _loggerMock = new Mock<ILogger<AuthService>>();
 
@@ -69,6 +74,7 @@ namespace Orderflow.Api.Identity.Test
                 _userManagerMock.Object,
                 _signInManagerMock.Object,
                 _tokenServiceMock.Object,
+                _sessionRevocationStoreMock.Object,
                 _publishEndpointMock.Object,
                 _loggerMock.Object
             );
@@ -204,7 +210,7 @@ namespace Orderflow.Api.Identity.Test
                 .ReturnsAsync(roles);
 
             _tokenServiceMock
-                .Setup(t => t.GenerateAccessTokenAsync(user, roles))
+                .Setup(t => t.GenerateAccessTokenAsync(user, roles, null))
                 .ReturnsAsync("fake-jwt-token");
 
             _tokenServiceMock
@@ -226,7 +232,7 @@ namespace Orderflow.Api.Identity.Test
             Assert.That(result.Data.Roles, Is.EquivalentTo(roles));
 
             _tokenServiceMock.Verify(
-                t => t.GenerateAccessTokenAsync(user, roles),
+                t => t.GenerateAccessTokenAsync(user, roles, null),
                 Times.Once);
         }
 
@@ -666,7 +672,7 @@ namespace Orderflow.Api.Identity.Test
                 .ReturnsAsync(roles);
 
             _tokenServiceMock
-                .Setup(t => t.GenerateAccessTokenAsync(user, roles))
+                .Setup(t => t.GenerateAccessTokenAsync(user, roles, null))
                 .ReturnsAsync("fake-token");
 
             _tokenServiceMock
@@ -715,7 +721,7 @@ namespace Orderflow.Api.Identity.Test
                 .ReturnsAsync(emptyRoles);
 
             _tokenServiceMock
-                .Setup(t => t.GenerateAccessTokenAsync(user, emptyRoles))
+                .Setup(t => t.GenerateAccessTokenAsync(user, emptyRoles, null))
                 .ReturnsAsync("token-no-roles");
 
             _tokenServiceMock
@@ -902,5 +908,155 @@ namespace Orderflow.Api.Identity.Test
         }
 
         #endregion
+
+        #region RevokeOtherSessionsAsync tests
+
+        [Test]
+        public async Task RevokeOtherSessionsAsync_WhenUserNotFound_ReturnsFailureWithoutRevoking()
+        {
+            // Arrange
+            var userId = "non-existent-id";
+
+            _userManagerMock
+                .Setup(m => m.FindByIdAsync(userId))
+                .ReturnsAsync((IdentityUser?)null);
+
+            // Act
+            var result = await _sut.RevokeOtherSessionsAsync(userId);
+
+            // Assert
+            Assert.That(result.Succeeded, Is.False);
+            Assert.That(result.Errors.First(), Does.Contain("not found"));
+
+            _sessionRevocationStoreMock.Verify(
+                s => s.RevokeTokensIssuedBeforeAsync(
+                    It.IsAny<string>(), It.IsAny<DateTimeOffset>(), It.IsAny<TimeSpan>()),
+                Times.Never);
+        }
+
+        [Test]
+        public async Task RevokeOtherSessionsAsync_WhenUserExists_RevokesTokensAndReturnsNewToken()
+        {
+            // Arrange
+            var userId = "user-123";
+            var user = new IdentityUser
+            {
+                Id = userId,
+                Email = "user@test.com",
+                UserName = "user"
+            };
+            var roles = new List<string> { "Customer" };
+
+            _userManagerMock
+                .Setup(m => m.FindByIdAsync(userId))
+                .ReturnsAsync(user);
+
+            _userManagerMock
+                .Setup(m => m.GetRolesAsync(user))
+                .ReturnsAsync(roles);
+
+            _tokenServiceMock
+                .Setup(t => t.GenerateAccessTokenAsync(user, roles, It.IsAny<DateTimeOffset?>()))
+                .ReturnsAsync("new-jwt-token");
+
+            _tokenServiceMock
+                .Setup(t => t.GetTokenExpiryInSeconds())
+                .Returns(3600);
+
+            DateTimeOffset? revokedBefore = null;
+            _sessionRevocationStoreMock
+                .Setup(s => s.RevokeTokensIssuedBeforeAsync(userId, It.IsAny<DateTimeOffset>(), It.IsAny<TimeSpan>()))
+                .Callback<string, DateTimeOffset, TimeSpan>((_, d, _) => revokedBefore = d)
+                .Returns(Task.CompletedTask);
+
+            var before = DateTimeOffset.UtcNow;
+
+            // Act
+            var result = await _sut.RevokeOtherSessionsAsync(userId);
+
+            // Assert
+            Assert.That(result.Succeeded, Is.True);
+            Assert.That(result.Data, Is.Not.Null);
+            Assert.That(result.Data!.AccessToken, Is.EqualTo("new-jwt-token"));
+            Assert.That(result.Data.UserId, Is.EqualTo(userId));
+
+            // Revocation is kept for the token lifetime and dated after the current second
+            _sessionRevocationStoreMock.Verify(
+                s => s.RevokeTokensIssuedBeforeAsync(userId, It.IsAny<DateTimeOffset>(), TimeSpan.FromSeconds(3600)),
+                Times.Once);
+            Assert.That(revokedBefore!.Value.ToUnixTimeSeconds(), Is.GreaterThan(before.ToUnixTimeSeconds()));
+
+            // The new token is issued at the revocation mark, so it is not revoked itself
+            _tokenServiceMock.Verify(
+                t => t.GenerateAccessTokenAsync(user, roles, revokedBefore),
+                Times.Once);
+        }
+
+        [Test]
+        public async Task RevokeOtherSessionsAsync_TokenIssuedInSameSecond_IsRevokedButNewTokenIsNot()
+        {
+            // Arrange: real TokenService so the iat claims are the ones the gateway reads
+            var userId = "user-123";
+            var user = new IdentityUser
+            {
+                Id = userId,
+                Email = "user@test.com",
+                UserName = "user"
+            };
+
+            var configuration = new ConfigurationBuilder()
+                .AddInMemoryCollection(new Dictionary<string, string?>
+                {
+                    ["Jwt:Secret"] = "test-secret-key-minimum-32-characters-long-for-hmac",
+                    ["Jwt:Issuer"] = "test-issuer",
+                    ["Jwt:Audience"] = "test-audience",
+                    ["Jwt:ExpiryInMinutes"] = "60"
+                })
+                .Build();
+            var tokenService = new TokenService(configuration);
+
+            var sut = new AuthService(
+                _userManagerMock.Object,
+                _signInManagerMock.Object,
+                tokenService,
+                _sessionRevocationStoreMock.Object,
+                _publishEndpointMock.Object,
+                _loggerMock.Object);
+
+            _userManagerMock
+                .Setup(m => m.FindByIdAsync(userId))
+                .ReturnsAsync(user);
+
+            _userManagerMock
+                .Setup(m => m.GetRolesAsync(user))
+                .ReturnsAsync(new List<string> { "Customer" });
+
+            long revokedBefore = 0;
+            _sessionRevocationStoreMock
+                .Setup(s => s.RevokeTokensIssuedBeforeAsync(userId, It.IsAny<DateTimeOffset>(), It.IsAny<TimeSpan>()))
+                .Callback<string, DateTimeOffset, TimeSpan>((_, d, _) => revokedBefore = d.ToUnixTimeSeconds())
+                .Returns(Task.CompletedTask);
+
+            // Another session signed in just before the revocation (same second in practice)
+            var otherSessionToken = await tokenService.GenerateAccessTokenAsync(user, ["Customer"]);
+
+            // Act
+            var result = await sut.RevokeOtherSessionsAsync(userId);
+
+            // Assert
+            Assert.That(result.Succeeded, Is.True);
+
+            var handler = new JwtSecurityTokenHandler();
+            var otherIssuedAt = handler.ReadJwtToken(otherSessionToken).Payload.IssuedAt;
+            var newIssuedAt = handler.ReadJwtToken(result.Data!.AccessToken).Payload.IssuedAt;
+
+            Assert.That(newIssuedAt, Is.GreaterThan(otherIssuedAt));
+            Assert.That(SessionRevocation.IsRevoked(
+                new DateTimeOffset(otherIssuedAt).ToUnixTimeSeconds().ToString(), revokedBefore), Is.True);
+            Assert.That(SessionRevocation.IsRevoked(
+                new DateTimeOffset(newIssuedAt).ToUnixTimeSeconds().ToString(), revokedBefore), Is.False);
+        }
+
+        #endregion
     }
 }
\ No newline at end of file
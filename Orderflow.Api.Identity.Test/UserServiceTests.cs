@@ -437,6 +437,44 @@ public class UserServiceTests
             Times.Once);
     }
 
+    [Test]
+    public async Task CreateUserAsync_WithEmailConfirmed_CreatesConfirmedUser()
+    {
+        // Arrange
+        var request = new CreateUserRequest
+        {
+            Email = "b2b@test.com",
+            Password = "Password123!",
+            EmailConfirmed = true
+        };
+
+        _userManagerMock
+            .Setup(um => um.FindByEmailAsync(request.Email))
+            .ReturnsAsync((IdentityUser?)null);
+
+        _userManagerMock
+            .Setup(um => um.CreateAsync(It.IsAny<IdentityUser>(), request.Password))
+            .ReturnsAsync(IdentityResult.Success);
+
+        _userManagerMock
+            .Setup(um => um.AddToRoleAsync(It.IsAny<IdentityUser>(), It.IsAny<string>()))
+            .ReturnsAsync(IdentityResult.Success);
+
+        _userManagerMock
+            .Setup(um => um.GetRolesAsync(It.IsAny<IdentityUser>()))
+            .ReturnsAsync(new List<string> { "Customer" });
+
+        // Act
+        var result = await _userService.CreateUserAsync(request);
+
+        // Assert
+        Assert.That(result.Succeeded, Is.True);
+        Assert.That(result.Data!.EmailConfirmed, Is.True);
+        _userManagerMock.Verify(
+            um => um.CreateAsync(It.Is<IdentityUser>(u => u.EmailConfirmed), request.Password),
+            Times.Once);
+    }
+
     #endregion
 
     #region UpdateUserAsync
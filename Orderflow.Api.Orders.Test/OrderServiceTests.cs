@@ -0,0 +1,146 @@
+﻿using System.Net;
+using MassTransit;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using Moq;
+using Orderflow.Orders.Data;
+using Orderflow.Orders.Data.Entities;
+using Orderflow.Orders.Services;
+using Orderflow.Shared.Events;
+
+namespace Orderflow.Api.Orders.Test
+{
+    [TestFixture]
+    public class OrderServiceTests
+    {
+        private const string UserId = "user-123";
+
+        private OrdersDbContext _db;
+        private StubCatalogHandler _catalogHandler;
+        private Mock<IPublishEndpoint> _publishEndpointMock;
+        private OrderService _sut;
+
+        [SetUp]
+        public void Setup()
+        {
+            // Base de datos en memoria distinta por test
+            var options = new DbContextOptionsBuilder<OrdersDbContext>()
+                .UseInMemoryDatabase(Guid.NewGuid().ToString())
+                .Options;
+            _db = new OrdersDbContext(options);
+
+            _catalogHandler = new StubCatalogHandler();
+            var httpClientFactoryMock = new Mock<IHttpClientFactory>();
+            httpClientFactoryMock
+                .Setup(f => f.CreateClient("catalog"))
+                .Returns(() => new HttpClient(_catalogHandler, disposeHandler: false)
+                {
+                    BaseAddress = new Uri("http://catalog")
+                });
+
+            _publishEndpointMock = new Mock<IPublishEndpoint>();
+
+            _sut = new OrderService(
+                _db,
+                httpClientFactoryMock.Object,
+                _publishEndpointMock.Object,
+                Mock.Of<ILogger<OrderService>>());
+        }
+
+        [TearDown]
+        public void TearDown()
+        {
+            _db.Dispose();
+            _catalogHandler.Dispose();
+        }
+
+        private async Task<Order> SeedOrderAsync(OrderStatus status)
+        {
+            var order = new Order
+            {
+                UserId = UserId,
+                Status = status,
+                TotalAmount = 20m,
+                Items =
+                [
+                    new OrderItem { ProductId = 7, ProductName = "Teclado", UnitPrice = 10m, Quantity = 2 }
+                ]
+            };
+            _db.Orders.Add(order);
+            await _db.SaveChangesAsync();
+            return order;
+        }
+
+        #region CancelAsync tests
+
+        [Test]
+        public async Task CancelAsync_WhenOrderIsPending_CancelsAndReleasesStock()
+        {
+            // Arrange
+            var order = await SeedOrderAsync(OrderStatus.Pending);
+
+            // Act
+            var result = await _sut.CancelAsync(order.Id, UserId, "Ya no lo necesito");
+
+            // Assert
+            Assert.That(result.Succeeded, Is.True);
+            Assert.That((await _db.Orders.SingleAsync()).Status, Is.EqualTo(OrderStatus.Cancelled));
+            Assert.That(_catalogHandler.RequestedPaths, Is.EqualTo(new[] { "/api/v1/products/7/stock/release" }));
+
+            _publishEndpointMock.Verify(
+                p => p.Publish(It.IsAny<OrderCancelledEvent>(), It.IsAny<CancellationToken>()),
+                Times.Once);
+        }
+
+        [Test]
+        public async Task CancelAsync_WhenOrderWasConfirmed_ReturnsFailureAndKeepsOrder()
+        {
+            // Arrange: the order was confirmed after the customer loaded it
+            var order = await SeedOrderAsync(OrderStatus.Confirmed);
+
+            // Act
+            var result = await _sut.CancelAsync(order.Id, UserId);
+
+            // Assert
+            Assert.That(result.Succeeded, Is.False);
+            Assert.That(result.Errors.First(), Does.Contain("cannot be cancelled"));
+            Assert.That((await _db.Orders.SingleAsync()).Status, Is.EqualTo(OrderStatus.Confirmed));
+            Assert.That(_catalogHandler.RequestedPaths, Is.Empty);
+
+            _publishEndpointMock.Verify(
+                p => p.Publish(It.IsAny<OrderCancelledEvent>(), It.IsAny<CancellationToken>()),
+                Times.Never);
+        }
+
+        [Test]
+        public async Task CancelAsync_WhenOrderBelongsToAnotherUser_ReturnsAccessDenied()
+        {
+            // Arrange
+            var order = await SeedOrderAsync(OrderStatus.Pending);
+
+            // Act
+            var result = await _sut.CancelAsync(order.Id, "other-user");
+
+            // Assert
+            Assert.That(result.Succeeded, Is.False);
+            Assert.That(result.Errors.First(), Does.Contain("Access denied"));
+            Assert.That((await _db.Orders.SingleAsync()).Status, Is.EqualTo(OrderStatus.Pending));
+        }
+
+        #endregion
+
+        // Responde 200 a cualquier llamada al Catalog y guarda las rutas pedidas
+        private sealed class StubCatalogHandler : HttpMessageHandler
+        {
+            public List<string> RequestedPaths { get; } = [];
+
+            protected override Task<HttpResponseMessage> SendAsync(
+                HttpRequestMessage request,
+                CancellationToken cancellationToken)
+            {
+                RequestedPaths.Add(request.RequestUri!.AbsolutePath);
+                return Task.FromResult(new HttpResponseMessage(HttpStatusCode.OK));
+            }
+        }
+    }
+}
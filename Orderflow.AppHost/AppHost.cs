@@ -20,7 +20,7 @@ var identityDb = postgres.AddDatabase("identitydb");
 var catalogDb = postgres.AddDatabase("catalogdb");
 var ordersDb = postgres.AddDatabase("ordersdb");
 
-// Redis - Distributed cache for rate limiting only
+// Redis - Distributed cache for rate limiting and session revocation
 var redis = builder.AddRedis("cache")
     .WithDataVolume("Orderflow-redis-data")
     .WithHostPort(6379)
@@ -44,9 +44,11 @@ var maildev = builder.AddContainer("maildev", "maildev/maildev")
 var identityService = builder.AddProject<Projects.Orderflow_Identity>("orderflow-identity")
     .WithReference(identityDb)
     .WithReference(rabbitmq)
+    .WithReference(redis) // Session revocation checked by the gateway
     .WithEnvironment("Jwt__Secret", jwtSecret) // primero
     .WaitFor(identityDb)
-    .WaitFor(rabbitmq);
+    .WaitFor(rabbitmq)
+    .WaitFor(redis);
 
 
 // Catalog Service - Products and Categories
@@ -1,4 +1,5 @@
-﻿using Microsoft.AspNetCore.Authorization;
+﻿using System.Security.Claims;
+using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Asp.Versioning;
 using FluentValidation;
@@ -237,21 +238,51 @@ public class AdminUserController : ControllerBase
     /// </summary>
     /// <param name="userId">User ID</param>
     /// <param name="request">Lock request with optional lockout end time. If not provided or null, locks indefinitely.</param>
+    /// <param name="validator">Request validator</param>
+    /// <param name="cancellationToken">Cancellation token</param>
     /// <returns>No content</returns>
     [HttpPost("{userId}/lock")]
     [Consumes("application/json")]
     [ProducesResponseType(StatusCodes.Status204NoContent)]
-    [ProducesResponseType<ProblemDetails>(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType<ValidationProblemDetails>(StatusCodes.Status400BadRequest)]
     [ProducesResponseType<ProblemDetails>(StatusCodes.Status404NotFound)]
     [ProducesResponseType<ProblemDetails>(StatusCodes.Status401Unauthorized)]
     [ProducesResponseType<ProblemDetails>(StatusCodes.Status403Forbidden)]
     public async Task<IActionResult> LockUser(
         string userId,
-        [FromBody] LockUserRequest? request = null)
+        [FromServices] IValidator<LockUserRequest> validator,
+        [FromBody] LockUserRequest? request = null,
+        CancellationToken cancellationToken = default)
     {
+        if (request is not null)
+        {
+            var validationResult = await validator.ValidateAsync(request, cancellationToken);
+            if (!validationResult.IsValid)
+            {
+                var errors = validationResult.ToDictionary();
+                _logger.LogWarning("User lock validation failed for user: {UserId}", userId);
+                return ValidationProblem(new ValidationProblemDetails(errors)
+                {
+                    Title = "Validation failed"
+                });
+            }
+        }
+
         var lockoutEnd = request?.LockoutEnd ?? DateTimeOffset.MaxValue;
 
-        _logger.LogInformation("Locking user: {UserId} until {LockoutEnd}", userId, lockoutEnd);
+        // An admin locking their own account would lose access to the panel
+        if (userId == User.FindFirst(ClaimTypes.NameIdentifier)?.Value)
+        {
+            return BadRequest(new ProblemDetails
+            {
+                Title = "Failed to lock user",
+                Detail = "You cannot lock your own account",
+                Status = StatusCodes.Status400BadRequest
+            });
+        }
+
+        _logger.LogInformation("Locking user: {UserId} until {LockoutEnd}. Reason: {Reason}",
+            userId, lockoutEnd, request?.Reason ?? "(none)");
 
         var result = await _userService.LockUserAsync(userId, lockoutEnd);
 
@@ -3,7 +3,9 @@ using Microsoft.AspNetCore.Mvc;
 using Asp.Versioning;
 using FluentValidation;
 using System.Security.Claims;
+using Orderflow.Identity.DTOs.Auth;
 using Orderflow.Identity.DTOs.Users.Responses;
+using Orderflow.Identity.Services;
 using Orderflow.Identity.Services.Users;
 
 namespace Orderflow.Identity.Controllers;
@@ -194,4 +196,45 @@ public class UserController : ControllerBase
 
         return Ok(response);
     }
+
+    /// <summary>
+    /// Sign out every other session of the current user
+    /// </summary>
+    /// <remarks>
+    /// Access tokens issued before this call are rejected by the API Gateway.
+    /// The response carries a new token so the calling session stays signed in.
+    /// </remarks>
+    /// <param name="authService">Authentication service</param>
+    /// <returns>New access token for the current session</returns>
+    [HttpPost("me/sessions/revoke-others")]
+    [ProducesResponseType<LoginResponse>(StatusCodes.Status200OK)]
+    [ProducesResponseType<ProblemDetails>(StatusCodes.Status404NotFound)]
+    [ProducesResponseType<ProblemDetails>(StatusCodes.Status401Unauthorized)]
+    public async Task<ActionResult<LoginResponse>> RevokeOtherSessions(
+        [FromServices] IAuthService authService)
+    {
+        var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+
+        if (string.IsNullOrEmpty(userId))
+        {
+            return Unauthorized();
+        }
+
+        _logger.LogInformation("Revoking other sessions for user: {UserId}", userId);
+
+        var result = await authService.RevokeOtherSessionsAsync(userId);
+
+        if (!result.Succeeded)
+        {
+            _logger.LogWarning("Revoke sessions failed for user: {UserId}", userId);
+            return NotFound(new ProblemDetails
+            {
+                Title = "User not found",
+                Detail = string.Join(", ", result.Errors),
+                Status = StatusCodes.Status404NotFound
+            });
+        }
+
+        return Ok(result.Data!);
+    }
 }
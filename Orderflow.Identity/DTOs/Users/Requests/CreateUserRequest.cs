@@ -29,4 +29,9 @@ public record CreateUserRequest
     /// Roles to assign to user (optional, defaults to ["Customer"])
     /// </summary>
     public IEnumerable<string>? Roles { get; init; }
+
+    /// <summary>
+    /// Whether the email is already confirmed (e.g. customers onboarded by support)
+    /// </summary>
+    public bool EmailConfirmed { get; init; }
 }
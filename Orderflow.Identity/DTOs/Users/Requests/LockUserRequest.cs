@@ -9,4 +9,9 @@ public record LockUserRequest
     /// When the lockout should end (null means indefinite)
     /// </summary>
     public DateTimeOffset? LockoutEnd { get; init; }
+
+    /// <summary>
+    /// Optional reason for the lockout, recorded in the logs
+    /// </summary>
+    public string? Reason { get; init; }
 }
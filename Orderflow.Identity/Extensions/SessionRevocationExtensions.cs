@@ -0,0 +1,38 @@
+﻿using System.Security.Claims;
+using Microsoft.AspNetCore.Authentication.JwtBearer;
+using Microsoft.IdentityModel.JsonWebTokens;
+using Orderflow.Identity.Services.Auth;
+using Orderflow.Shared.Common;
+
+namespace Orderflow.Identity.Extensions;
+
+public static class SessionRevocationExtensions
+{
+    /// <summary>
+    /// Rejects revoked tokens when Identity is called directly, bypassing the API Gateway
+    /// </summary>
+    public static void RejectRevokedSessions(this JwtBearerEvents events)
+    {
+        events.OnTokenValidated = async context =>
+        {
+            var userId = context.Principal?.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+            {
+                return;
+            }
+
+            var store = context.HttpContext.RequestServices.GetRequiredService<ISessionRevocationStore>();
+            var revokedBefore = await store.GetRevokedBeforeAsync(userId);
+            if (revokedBefore is null)
+            {
+                return;
+            }
+
+            var issuedAt = context.Principal!.FindFirst(JwtRegisteredClaimNames.Iat)?.Value;
+            if (SessionRevocation.IsRevoked(issuedAt, revokedBefore.Value))
+            {
+                context.Fail("The session has been revoked");
+            }
+        };
+    }
+}
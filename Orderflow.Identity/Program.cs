@@ -113,6 +113,11 @@ builder.Services.AddMassTransit(x =>
     });
 });
 
+// ============================================
+// REDIS (revocacin de sesiones, compartido con el Gateway)
+// ============================================
+builder.AddRedisClient("cache");
+
 // ============================================
 // ASP.NET CORE IDENTITY config
 // ============================================
@@ -144,13 +149,14 @@ builder.Services.AddIdentity<IdentityUser, IdentityRole>(options =>
 // ============================================
 builder.Services.AddScoped<IAuthService, AuthService>();
 builder.Services.AddScoped<ITokenService, TokenService>();
+builder.Services.AddScoped<ISessionRevocationStore, RedisSessionRevocationStore>();
 builder.Services.AddScoped<IUserService, UserService>();
 builder.Services.AddScoped<IRoleService, RoleService>();
 
 // ============================================
 // JWT BEARER AUTHENTICATION
 // ============================================
-builder.Services.AddJwtAuthentication(builder.Configuration); // extensin jwt  
+builder.Services.AddJwtAuthentication(builder.Configuration, events => events.RejectRevokedSessions()); // extensin jwt  
 
 var app = builder.Build();
 
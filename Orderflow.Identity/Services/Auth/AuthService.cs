@@ -11,6 +11,7 @@ namespace Orderflow.Identity.Services.Auth
         private readonly UserManager<IdentityUser> _userManager;
         private readonly SignInManager<IdentityUser> _signInManager;
         private readonly ITokenService _tokenService;
+        private readonly ISessionRevocationStore _sessionRevocationStore;
         private readonly IPublishEndpoint _publishEndpoint;
         private readonly ILogger<AuthService> _logger;
 
@@ -18,12 +19,14 @@ namespace Orderflow.Identity.Services.Auth
             UserManager<IdentityUser> userManager,
             SignInManager<IdentityUser> signInManager,
             ITokenService tokenService,
+            ISessionRevocationStore sessionRevocationStore,
             IPublishEndpoint publishEndpoint,
             ILogger<AuthService> logger)
         {
             _userManager = userManager;
             _signInManager = signInManager;
             _tokenService = tokenService;
+            _sessionRevocationStore = sessionRevocationStore;
             _publishEndpoint = publishEndpoint;
             _logger = logger;
         }
@@ -55,20 +58,7 @@ namespace Orderflow.Identity.Services.Auth
                 return AuthResult<LoginResponse>.Failure("Invalid email or password");
             }
 
-            var roles = await _userManager.GetRolesAsync(user);
-
-            var token = await _tokenService.GenerateAccessTokenAsync(user, roles);
-            var expiresIn = _tokenService.GetTokenExpiryInSeconds();
-
-            var response = new LoginResponse
-            {
-                AccessToken = token,
-                TokenType = "Bearer",
-                ExpiresIn = expiresIn,
-                UserId = user.Id,
-                Email = user.Email ?? string.Empty,
-                Roles = roles
-            };
+            var response = await CreateLoginResponseAsync(user);
 
             return AuthResult<LoginResponse>.Success(response);
         }
@@ -151,5 +141,51 @@ namespace Orderflow.Identity.Services.Auth
 
             return AuthResult<CurrentUserResponse>.Success(response);
         }
+
+        public async Task<AuthResult<LoginResponse>> RevokeOtherSessionsAsync(string userId)
+        {
+            var user = await _userManager.FindByIdAsync(userId);
+            if (user is null)
+            {
+                _logger.LogWarning("Revoke sessions failed: User not found {UserId}", userId);
+                return AuthResult<LoginResponse>.Failure("User not found");
+            }
+
+            // iat has second precision: the mark is the next second, so tokens issued
+            // earlier in the current one are revoked too, and the new token is issued at it
+            var revokedBefore = DateTimeOffset.FromUnixTimeSeconds(
+                DateTimeOffset.UtcNow.ToUnixTimeSeconds() + 1);
+
+            await _sessionRevocationStore.RevokeTokensIssuedBeforeAsync(
+                user.Id,
+                revokedBefore,
+                TimeSpan.FromSeconds(_tokenService.GetTokenExpiryInSeconds()));
+
+            _logger.LogInformation("Other sessions revoked for user: {UserId}", user.Id);
+
+            var response = await CreateLoginResponseAsync(user, revokedBefore);
+
+            return AuthResult<LoginResponse>.Success(response);
+        }
+
+        private async Task<LoginResponse> CreateLoginResponseAsync(
+            IdentityUser user,
+            DateTimeOffset? issuedAt = null)
+        {
+            var roles = await _userManager.GetRolesAsync(user);
+
+            var token = await _tokenService.GenerateAccessTokenAsync(user, roles, issuedAt);
+            var expiresIn = _tokenService.GetTokenExpiryInSeconds();
+
+            return new LoginResponse
+            {
+                AccessToken = token,
+                TokenType = "Bearer",
+                ExpiresIn = expiresIn,
+                UserId = user.Id,
+                Email = user.Email ?? string.Empty,
+                Roles = roles
+            };
+        }
     }
 }
@@ -19,5 +19,9 @@ namespace Orderflow.Identity.Services                          // Namespace de l
         // Obtener usuario actual a partir de los claims del token (aquí se usa userId directamente)
         Task<AuthResult<CurrentUserResponse>> GetCurrentUserAsync(
             string userId);                                   // Usuario actual (HttpContext.User)
+
+        // Revoca los tokens emitidos hasta ahora y devuelve uno nuevo para la sesión actual
+        Task<AuthResult<LoginResponse>> RevokeOtherSessionsAsync(
+            string userId);                                   // Usuario actual (HttpContext.User)
     }
 }
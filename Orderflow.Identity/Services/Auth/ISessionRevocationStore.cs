@@ -0,0 +1,22 @@
+﻿namespace Orderflow.Identity.Services.Auth;
+
+/// <summary>
+/// Store for per-user access token revocations
+/// </summary>
+public interface ISessionRevocationStore
+{
+    /// <summary>
+    /// Revokes every access token of the user issued before the given instant
+    /// </summary>
+    /// <param name="userId">User whose tokens are revoked</param>
+    /// <param name="issuedBefore">Tokens issued before this instant are rejected</param>
+    /// <param name="retention">How long the revocation must be kept (token lifetime)</param>
+    Task RevokeTokensIssuedBeforeAsync(string userId, DateTimeOffset issuedBefore, TimeSpan retention);
+
+    /// <summary>
+    /// Gets the Unix time (seconds) before which the user's tokens are revoked
+    /// </summary>
+    /// <param name="userId">User whose revocation is read</param>
+    /// <returns>The revocation mark, or null if none is active</returns>
+    Task<long?> GetRevokedBeforeAsync(string userId);
+}
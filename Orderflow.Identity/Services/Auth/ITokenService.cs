@@ -12,8 +12,12 @@ public interface ITokenService
     /// </summary>
     /// <param name="user">The authenticated user</param>
     /// <param name="roles">User's roles to include in token claims</param>
+    /// <param name="issuedAt">Value of the iat claim (defaults to now)</param>
     /// <returns>JWT token string</returns>
-    Task<string> GenerateAccessTokenAsync(IdentityUser user, IEnumerable<string> roles);
+    Task<string> GenerateAccessTokenAsync(
+        IdentityUser user,
+        IEnumerable<string> roles,
+        DateTimeOffset? issuedAt = null);
 
     /// <summary>
     /// Gets the token expiry time in seconds
@@ -0,0 +1,36 @@
+﻿using Orderflow.Shared.Common;
+using StackExchange.Redis;
+
+namespace Orderflow.Identity.Services.Auth;
+
+/// <summary>
+/// Keeps token revocations in the Redis instance the API Gateway also checks on every request
+/// </summary>
+public class RedisSessionRevocationStore : ISessionRevocationStore
+{
+    private readonly IConnectionMultiplexer _redis;
+
+    public RedisSessionRevocationStore(IConnectionMultiplexer redis)
+    {
+        _redis = redis;
+    }
+
+    public async Task RevokeTokensIssuedBeforeAsync(
+        string userId,
+        DateTimeOffset issuedBefore,
+        TimeSpan retention)
+    {
+        // Once the retention elapses every revoked token has expired anyway
+        await _redis.GetDatabase().StringSetAsync(
+            SessionRevocation.GetKey(userId),
+            issuedBefore.ToUnixTimeSeconds(),
+            retention);
+    }
+
+    public async Task<long?> GetRevokedBeforeAsync(string userId)
+    {
+        var revokedBefore = await _redis.GetDatabase().StringGetAsync(SessionRevocation.GetKey(userId));
+
+        return revokedBefore.IsNullOrEmpty ? null : (long)revokedBefore;
+    }
+}
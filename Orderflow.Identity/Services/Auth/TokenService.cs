@@ -23,7 +23,10 @@ public class TokenService : ITokenService
     /// <summary>
     /// Generates a JWT access token for an authenticated user
     /// </summary>
-    public Task<string> GenerateAccessTokenAsync(IdentityUser user, IEnumerable<string> roles)
+    public Task<string> GenerateAccessTokenAsync(
+        IdentityUser user,
+        IEnumerable<string> roles,
+        DateTimeOffset? issuedAt = null)
     {
         var jwtSecret = _configuration["Jwt:Secret"]
             ?? throw new InvalidOperationException("Jwt:Secret is not configured");
@@ -41,6 +44,10 @@ public class TokenService : ITokenService
             new(JwtRegisteredClaimNames.Sub, user.Id),
             new(JwtRegisteredClaimNames.Email, user.Email ?? string.Empty),
             new(JwtRegisteredClaimNames.Jti, Guid.NewGuid().ToString()),
+            // The API Gateway compares it with the user's session revocations
+            new(JwtRegisteredClaimNames.Iat,
+                (issuedAt ?? DateTimeOffset.UtcNow).ToUnixTimeSeconds().ToString(),
+                ClaimValueTypes.Integer64),
             new(ClaimTypes.NameIdentifier, user.Id)
         };
 
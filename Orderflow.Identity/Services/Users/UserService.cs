@@ -156,7 +156,7 @@ public class UserService : IUserService
             UserName = request.UserName ?? request.Email,
             Email = request.Email,
             PhoneNumber = request.PhoneNumber,
-            EmailConfirmed = false
+            EmailConfirmed = request.EmailConfirmed
         };
 
         var createResult = await _userManager.CreateAsync(user, request.Password);
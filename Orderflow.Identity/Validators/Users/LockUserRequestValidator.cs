@@ -0,0 +1,16 @@
+﻿using FluentValidation;
+using Orderflow.Identity.DTOs.Users.Requests;
+
+namespace Orderflow.Identity.Validators.Users;
+
+/// <summary>
+/// Validator for LockUserRequest (admin operation)
+/// </summary>
+public class LockUserRequestValidator : AbstractValidator<LockUserRequest>
+{
+    public LockUserRequestValidator()
+    {
+        RuleFor(x => x.Reason)
+            .MaximumLength(500).WithMessage("Reason must not exceed 500 characters");
+    }
+}
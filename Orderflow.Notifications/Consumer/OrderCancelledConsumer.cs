@@ -10,8 +10,8 @@ public class OrderCancelledConsumer(ILogger<OrderCancelledConsumer> logger) : IC
         var @event = context.Message;
 
         logger.LogInformation(
-            "Processing OrderCancelledEvent: EventId={EventId}, OrderId={OrderId}, UserId={UserId}, Items={ItemCount}",
-            @event.EventId, @event.OrderId, @event.UserId, @event.Items.Count());
+            "Processing OrderCancelledEvent: EventId={EventId}, OrderId={OrderId}, UserId={UserId}, Items={ItemCount}, Reason={Reason}",
+            @event.EventId, @event.OrderId, @event.UserId, @event.Items.Count(), @event.Reason);
 
         // Future: Send cancellation email, trigger refund process, etc.
 
@@ -94,13 +94,13 @@ public class OrdersController(IOrderService orderService) : ControllerBase
     [ProducesResponseType(StatusCodes.Status401Unauthorized)]
     [ProducesResponseType(StatusCodes.Status403Forbidden)]
     [ProducesResponseType(StatusCodes.Status404NotFound)]
-    public async Task<IActionResult> Cancel(int id)
+    public async Task<IActionResult> Cancel(int id, [FromBody] CancelOrderRequest? request)
     {
         var userId = GetUserId();
         if (userId is null)
             return Unauthorized();
 
-        var result = await orderService.CancelAsync(id, userId);
+        var result = await orderService.CancelAsync(id, userId, request?.Reason);
 
         if (!result.Succeeded)
         {
@@ -16,6 +16,7 @@ public record OrderResponse(
 
 public record OrderListResponse(
     int Id,
+    string UserId,
     string Status,
     decimal TotalAmount,
     int ItemCount,
@@ -39,3 +40,5 @@ public record CreateOrderItemRequest(
     int Quantity);
 
 public record UpdateOrderStatusRequest(OrderStatus Status);
+
+public record CancelOrderRequest(string? Reason);
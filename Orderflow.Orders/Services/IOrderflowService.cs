@@ -10,7 +10,7 @@ public interface IOrderService
     Task<ServiceResult<IEnumerable<OrderListResponse>>> GetUserOrdersAsync(string userId);
     Task<ServiceResult<OrderResponse>> GetByIdAsync(int id, string userId);
     Task<ServiceResult<OrderResponse>> CreateAsync(string userId, CreateOrderRequest request);
-    Task<ServiceResult> CancelAsync(int id, string userId);
+    Task<ServiceResult> CancelAsync(int id, string userId, string? reason = null);
 
     // Admin operations
 
@@ -20,7 +20,7 @@ public class OrderService(
             .Where(o => o.UserId == userId)
             .OrderByDescending(o => o.CreatedAt)
             .Select(o => new OrderListResponse(
-                o.Id, o.Status.ToString(), o.TotalAmount, o.Items.Count, o.CreatedAt))
+                o.Id, o.UserId, o.Status.ToString(), o.TotalAmount, o.Items.Count, o.CreatedAt))
             .ToListAsync();
 
         return ServiceResult<IEnumerable<OrderListResponse>>.Success(orders);
@@ -156,7 +156,7 @@ public class OrderService(
         }
     }
 
-    public async Task<ServiceResult> CancelAsync(int id, string userId)
+    public async Task<ServiceResult> CancelAsync(int id, string userId, string? reason = null)
     {
         var order = await db.Orders
             .Include(o => o.Items)
@@ -172,7 +172,8 @@ public class OrderService(
             return ServiceResult.Failure("Access denied");
         }
 
-        if (order.Status is not (OrderStatus.Pending or OrderStatus.Confirmed))
+        // Customers can only withdraw orders that have not been confirmed yet
+        if (order.Status != OrderStatus.Pending)
         {
             return ServiceResult.Failure("Order cannot be cancelled at this stage");
         }
@@ -207,13 +208,14 @@ public class OrderService(
 
         await db.SaveChangesAsync();
 
-        logger.LogInformation("Order cancelled: {OrderId}", id);
+        logger.LogInformation("Order cancelled: {OrderId}, Reason: {Reason}", id, reason ?? "(none)");
 
         // Publish event for audit/notifications (stock already released via HTTP)
         var orderCancelledEvent = new OrderCancelledEvent(
             order.Id,
             userId,
-            order.Items.Select(i => new OrderItemEvent(i.ProductId, i.ProductName, i.Quantity)));
+            order.Items.Select(i => new OrderItemEvent(i.ProductId, i.ProductName, i.Quantity)),
+            reason);
 
         await publishEndpoint.Publish(orderCancelledEvent);
 
@@ -241,7 +243,7 @@ public class OrderService(
             .Skip((page - 1) * pageSize)
             .Take(pageSize)
             .Select(o => new OrderListResponse(
-                o.Id, o.Status.ToString(), o.TotalAmount, o.Items.Count, o.CreatedAt))
+                o.Id, o.UserId, o.Status.ToString(), o.TotalAmount, o.Items.Count, o.CreatedAt))
             .ToListAsync();
 
         var paginatedResult = PaginatedResult<OrderListResponse>.Create(orders, page, pageSize, totalCount);
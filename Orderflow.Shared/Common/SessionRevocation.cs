@@ -0,0 +1,20 @@
+﻿namespace Orderflow.Shared.Common;
+
+/// <summary>
+/// Redis contract used to revoke access tokens: Identity writes the revocation
+/// and both the API Gateway and Identity reject tokens issued before it
+/// </summary>
+public static class SessionRevocation
+{
+    /// <summary>
+    /// Key holding the Unix time (seconds) before which the user's tokens are revoked
+    /// </summary>
+    public static string GetKey(string userId) => $"sessions:revoked-before:{userId}";
+
+    /// <summary>
+    /// Whether a token with the given iat claim was issued before the revocation.
+    /// Tokens without iat predate the revocation support, so they are revoked too.
+    /// </summary>
+    public static bool IsRevoked(string? issuedAt, long revokedBefore) =>
+        !long.TryParse(issuedAt, out var issuedAtSeconds) || issuedAtSeconds < revokedBefore;
+}
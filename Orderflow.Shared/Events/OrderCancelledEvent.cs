@@ -4,7 +4,8 @@ namespace Orderflow.Shared.Events;
 public sealed record OrderCancelledEvent(
     int OrderId,
     string UserId,
-    IEnumerable<OrderItemEvent> Items) : IIntegrationEvent
+    IEnumerable<OrderItemEvent> Items,
+    string? Reason = null) : IIntegrationEvent
 {
     public Guid EventId { get; init; } = Guid.NewGuid();
     public DateTime Timestamp { get; init; } = DateTime.UtcNow;
@@ -2,21 +2,57 @@ import { createBrowserRouter } from "react-router-dom";
 import { AppLayout } from "./ui/AppLayout";
 import { LoginPage } from "../features/auth/pages/LoginPage";
 import { RegisterPage } from "../features/auth/pages/RegisterPage";
+import { RequireAuth } from "../features/auth/components/RequireAuth";
+import { RequireRole } from "../features/auth/components/RequireRole";
 import { ProductsPage } from "../features/catalog/pages/ProductsPage";
+import { CategoryPage } from "../features/catalog/pages/CategoryPage";
+import { ProductDetailPage } from "../features/catalog/pages/ProductDetailPage";
 import { OrdersPage } from "../features/orders/pages/OrdersPage";
+import { OrderDetailPage } from "../features/orders/pages/OrderDetailPage";
+import { CheckoutPage } from "../features/orders/pages/CheckoutPage";
 import { ProfilePage } from "../features/profile/pages/ProfilePage";
+import { AdminLayout } from "../features/admin/components/AdminLayout";
 import { AdminUsersPage } from "../features/admin/pages/AdminUsersPage";
+import { AdminProductsPage } from "../features/admin/pages/AdminProductsPage";
+import { AdminCategoriesPage } from "../features/admin/pages/AdminCategoriesPage";
+import { AdminInventoryPage } from "../features/admin/pages/AdminInventoryPage";
+import { AdminOrdersPage } from "../features/admin/pages/AdminOrdersPage";
+import { AdminRolesPage } from "../features/admin/pages/AdminRolesPage";
 
 export const router = createBrowserRouter([
     {
         element: <AppLayout />,
         children: [
             { path: "/", element: <ProductsPage /> },
+            { path: "/categories/:id", element: <CategoryPage /> },
+            { path: "/products/:id", element: <ProductDetailPage /> },
             { path: "/login", element: <LoginPage /> },
             { path: "/register", element: <RegisterPage /> },
-            { path: "/orders", element: <OrdersPage /> },
-            { path: "/profile", element: <ProfilePage /> },
-            { path: "/admin/users", element: <AdminUsersPage /> },
+            {
+                element: <RequireAuth />,
+                children: [
+                    { path: "/orders", element: <OrdersPage /> },
+                    { path: "/orders/:id", element: <OrderDetailPage /> },
+                    { path: "/checkout", element: <CheckoutPage /> },
+                    { path: "/profile", element: <ProfilePage /> },
+                    {
+                        element: <RequireRole role="Admin" />,
+                        children: [
+                            {
+                                element: <AdminLayout />,
+                                children: [
+                                    { path: "/admin/users", element: <AdminUsersPage /> },
+                                    { path: "/admin/products", element: <AdminProductsPage /> },
+                                    { path: "/admin/categories", element: <AdminCategoriesPage /> },
+                                    { path: "/admin/inventory", element: <AdminInventoryPage /> },
+                                    { path: "/admin/orders", element: <AdminOrdersPage /> },
+                                    { path: "/admin/roles", element: <AdminRolesPage /> },
+                                ],
+                            },
+                        ],
+                    },
+                ],
+            },
         ],
     },
 ]);
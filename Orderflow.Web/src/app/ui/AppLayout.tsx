@@ -1,30 +1,42 @@
 import { Outlet, Link, useLocation } from "react-router-dom";
-import { tokenStorage } from "../../lib/storage";
+import { SessionExpiryWarning } from "../../features/auth/components/SessionExpiryWarning";
+import { useAuth } from "../../features/auth/useAuth";
+import { CartButton } from "../../features/cart/components/CartButton";
+import { CartDrawer } from "../../features/cart/components/CartDrawer";
 
-export function AppLayout() {
-  const isLoggedIn = !!tokenStorage.get();
+function NavLink({
+  to,
+  children,
+  icon,
+  activePrefix,
+}: {
+  to: string;
+  children: React.ReactNode;
+  icon?: React.ReactNode;
+  activePrefix?: string;
+}) {
   const location = useLocation();
+  const active = activePrefix
+    ? location.pathname.startsWith(activePrefix)
+    : location.pathname === to;
+  return (
+    <Link
+      to={to}
+      className={`flex items-center gap-2 text-sm font-medium transition-all duration-200 ${
+        active
+          ? "text-primary-600"
+          : "text-gray-700 hover:text-primary-600"
+      }`}
+    >
+      {icon}
+      {children}
+    </Link>
+  );
+}
 
-  const isActive = (path: string) => {
-    return location.pathname === path;
-  };
-
-  const NavLink = ({ to, children, icon }: { to: string; children: React.ReactNode; icon?: React.ReactNode }) => {
-    const active = isActive(to);
-    return (
-      <Link
-        to={to}
-        className={`flex items-center gap-2 text-sm font-medium transition-all duration-200 ${
-          active
-            ? "text-primary-600"
-            : "text-gray-700 hover:text-primary-600"
-        }`}
-      >
-        {icon}
-        {children}
-      </Link>
-    );
-  };
+export function AppLayout() {
+  const { isAuthenticated: isLoggedIn, hasRole } = useAuth();
+  const isAdmin = hasRole("Admin");
 
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col">
@@ -58,70 +70,81 @@ export function AppLayout() {
               </span>
             </Link>
 
-            {/* Navigation */}
-            <nav className="hidden md:flex items-center gap-8">
-              <NavLink
-                to="/"
-                icon={
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
-                  </svg>
-                }
-              >
-                Productos
-              </NavLink>
+            <div className="flex items-center gap-8">
+              {/* Navigation */}
+              <nav className="hidden md:flex items-center gap-8">
+                <NavLink
+                  to="/"
+                  icon={
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
+                    </svg>
+                  }
+                >
+                  Productos
+                </NavLink>
 
-              {isLoggedIn ? (
-                <>
-                  <NavLink
-                    to="/orders"
-                    icon={
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
-                      </svg>
-                    }
-                  >
-                    Mis Pedidos
-                  </NavLink>
-                  <NavLink
-                    to="/profile"
-                    icon={
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
-                      </svg>
-                    }
-                  >
-                    Perfil
-                  </NavLink>
-                  <NavLink
-                    to="/admin/users"
-                    icon={
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" />
-                      </svg>
-                    }
-                  >
-                    Admin
-                  </NavLink>
-                </>
-              ) : (
-                <>
-                  <NavLink to="/register">
-                    Registrarse
-                  </NavLink>
-                  <Link
-                    to="/login"
-                    className="btn-primary btn-md shadow-md hover:shadow-lg"
-                  >
-                    Iniciar Sesión
-                  </Link>
-                </>
-              )}
-            </nav>
+                {isLoggedIn ? (
+                  <>
+                    <NavLink
+                      to="/orders"
+                      activePrefix="/orders"
+                      icon={
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
+                        </svg>
+                      }
+                    >
+                      Mis Pedidos
+                    </NavLink>
+                    <NavLink
+                      to="/profile"
+                      icon={
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+                        </svg>
+                      }
+                    >
+                      Perfil
+                    </NavLink>
+                    {isAdmin && (
+                      <NavLink
+                        to="/admin/users"
+                        activePrefix="/admin"
+                        icon={
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" />
+                          </svg>
+                        }
+                      >
+                        Admin
+                      </NavLink>
+                    )}
+                  </>
+                ) : (
+                  <>
+                    <NavLink to="/register">
+                      Registrarse
+                    </NavLink>
+                    <Link
+                      to="/login"
+                      className="btn-primary btn-md shadow-md hover:shadow-lg"
+                    >
+                      Iniciar Sesión
+                    </Link>
+                  </>
+                )}
+              </nav>
+
+              <CartButton />
+            </div>
           </div>
         </div>
+        <SessionExpiryWarning />
       </header>
 
+      <CartDrawer />
+
       {/* Main content */}
       <main className="flex-1 mx-auto max-w-7xl w-full px-4 py-8">
         <Outlet />
@@ -165,16 +188,20 @@ export function AppLayout() {
                     Productos
                   </Link>
                 </li>
-                <li>
-                  <Link to="/orders" className="text-gray-600 hover:text-primary-600 transition">
-                    Pedidos
-                  </Link>
-                </li>
-                <li>
-                  <Link to="/profile" className="text-gray-600 hover:text-primary-600 transition">
-                    Perfil
-                  </Link>
-                </li>
+                {isLoggedIn && (
+                  <>
+                    <li>
+                      <Link to="/orders" className="text-gray-600 hover:text-primary-600 transition">
+                        Pedidos
+                      </Link>
+                    </li>
+                    <li>
+                      <Link to="/profile" className="text-gray-600 hover:text-primary-600 transition">
+                        Perfil
+                      </Link>
+                    </li>
+                  </>
+                )}
               </ul>
             </div>
 
@@ -0,0 +1,55 @@
+import { useEffect, type ReactNode } from "react";
+
+interface DrawerProps {
+  open: boolean;
+  title: string;
+  onClose: () => void;
+  children: ReactNode;
+  footer?: ReactNode;
+}
+
+// Panel lateral derecho; mismo comportamiento que Modal (Escape y clic fuera cierran)
+export function Drawer({ open, title, onClose, children, footer }: DrawerProps) {
+  useEffect(() => {
+    if (!open) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [open, onClose]);
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-[70] flex justify-end">
+      <div onClick={onClose} className="absolute inset-0 bg-black/40 animate-fade-in" />
+
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={title}
+        className="relative w-full max-w-xl h-full bg-white shadow-xl flex flex-col animate-slide-up"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h2 className="text-lg font-bold text-gray-900">{title}</h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-500 hover:text-gray-700"
+            aria-label="Cerrar"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 px-6 py-4 overflow-y-auto">{children}</div>
+
+        {footer && (
+          <div className="flex justify-end gap-3 px-6 py-4 border-t bg-gray-50">{footer}</div>
+        )}
+      </div>
+    </div>
+  );
+}
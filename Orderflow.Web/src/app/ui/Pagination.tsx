@@ -0,0 +1,63 @@
+interface PaginationProps {
+  page: number;
+  totalPages: number;
+  onPageChange: (page: number) => void;
+  disabled?: boolean;
+}
+
+// Páginas visibles alrededor de la actual; el resto se resume con "…"
+function getVisiblePages(page: number, totalPages: number): (number | "gap")[] {
+  const pages = new Set([1, totalPages, page - 1, page, page + 1]);
+  const sorted = [...pages].filter((p) => p >= 1 && p <= totalPages).sort((a, b) => a - b);
+
+  const result: (number | "gap")[] = [];
+  sorted.forEach((p, i) => {
+    if (i > 0 && p - sorted[i - 1] > 1) result.push("gap");
+    result.push(p);
+  });
+  return result;
+}
+
+export function Pagination({ page, totalPages, onPageChange, disabled }: PaginationProps) {
+  if (totalPages <= 1) return null;
+
+  return (
+    <nav className="flex items-center justify-center gap-1" aria-label="Paginación">
+      <button
+        onClick={() => onPageChange(page - 1)}
+        disabled={disabled || page <= 1}
+        className="btn-outline btn-sm"
+      >
+        Anterior
+      </button>
+      {getVisiblePages(page, totalPages).map((p, i) =>
+        p === "gap" ? (
+          <span key={`gap-${i}`} className="px-2 text-gray-400">
+            …
+          </span>
+        ) : (
+          <button
+            key={p}
+            onClick={() => onPageChange(p)}
+            disabled={disabled}
+            aria-current={p === page ? "page" : undefined}
+            className={`btn btn-sm min-w-[2.25rem] ${
+              p === page
+                ? "bg-primary-600 text-white"
+                : "border border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+            }`}
+          >
+            {p}
+          </button>
+        )
+      )}
+      <button
+        onClick={() => onPageChange(page + 1)}
+        disabled={disabled || page >= totalPages}
+        className="btn-outline btn-sm"
+      >
+        Siguiente
+      </button>
+    </nav>
+  );
+}
@@ -0,0 +1,167 @@
+import { api } from "../../lib/api";
+import { config } from "../../lib/config";
+import type { PaginatedResponse, PaginationQuery } from "../../lib/types";
+import type { UserDetailResponse, UserResponse } from "../auth/identityApi";
+import type {
+  OrderListResponse,
+  OrderResponse,
+  OrderStatus,
+  UpdateOrderStatusRequest,
+} from "../orders/ordersApi";
+
+// Tipos espejo de los endpoints de administración (Identity y Orders)
+
+export interface UserQueryParameters {
+  page?: number;
+  pageSize?: number;
+  search?: string;
+  role?: string;
+  sortBy?: "email" | "userName";
+  sortDescending?: boolean;
+}
+
+export interface CreateUserRequest {
+  email: string;
+  password: string;
+  userName?: string | null;
+  phoneNumber?: string | null;
+  roles?: string[] | null;
+  emailConfirmed?: boolean;
+}
+
+export interface UpdateUserRequest {
+  email: string;
+  userName: string;
+  phoneNumber: string | null;
+  emailConfirmed: boolean;
+  lockoutEnabled: boolean;
+}
+
+export interface LockUserRequest {
+  // null = bloqueo indefinido
+  lockoutEnd: string | null;
+  reason?: string | null;
+}
+
+export interface UserRolesResponse {
+  userId: string;
+  roles: string[];
+}
+
+export interface RoleAssignmentResponse {
+  userId: string;
+  roleName: string;
+  message: string;
+}
+
+export interface RoleResponse {
+  roleId: string;
+  roleName: string;
+  normalizedName: string;
+  userCount: number;
+}
+
+export type RoleDetailResponse = RoleResponse;
+
+export interface CreateRoleRequest {
+  roleName: string;
+}
+
+export interface UpdateRoleRequest {
+  roleName: string;
+}
+
+export interface AdminOrderQueryParams {
+  status?: OrderStatus;
+  userId?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+const ADMIN_USERS = `${config.apiPrefix}/admin/users`;
+const ADMIN_ROLES = `${config.apiPrefix}/admin/roles`;
+const ADMIN_ORDERS = `${config.apiPrefix}/admin/orders`;
+
+export const adminApi = {
+  async getUsers(params: UserQueryParameters = {}) {
+    const { data } = await api.get<PaginatedResponse<UserResponse>>(ADMIN_USERS, {
+      params,
+    });
+    return data;
+  },
+  async getUser(userId: string) {
+    const { data } = await api.get<UserDetailResponse>(`${ADMIN_USERS}/${userId}`);
+    return data;
+  },
+  async createUser(request: CreateUserRequest) {
+    const { data } = await api.post<UserResponse>(ADMIN_USERS, request);
+    return data;
+  },
+  async updateUser(userId: string, request: UpdateUserRequest) {
+    const { data } = await api.put<UserResponse>(`${ADMIN_USERS}/${userId}`, request);
+    return data;
+  },
+  async deleteUser(userId: string) {
+    await api.delete(`${ADMIN_USERS}/${userId}`);
+  },
+  async lockUser(userId: string, request: LockUserRequest) {
+    await api.post(`${ADMIN_USERS}/${userId}/lock`, request);
+  },
+  async unlockUser(userId: string) {
+    await api.post(`${ADMIN_USERS}/${userId}/unlock`);
+  },
+  async getUserRoles(userId: string) {
+    const { data } = await api.get<UserRolesResponse>(`${ADMIN_USERS}/${userId}/roles`);
+    return data;
+  },
+  async assignUserRole(userId: string, roleName: string) {
+    const { data } = await api.post<RoleAssignmentResponse>(
+      `${ADMIN_USERS}/${userId}/roles/${encodeURIComponent(roleName)}`
+    );
+    return data;
+  },
+  async removeUserRole(userId: string, roleName: string) {
+    await api.delete(`${ADMIN_USERS}/${userId}/roles/${encodeURIComponent(roleName)}`);
+  },
+
+  async getRoles() {
+    const { data } = await api.get<RoleResponse[]>(ADMIN_ROLES);
+    return data;
+  },
+  async getRole(roleId: string) {
+    const { data } = await api.get<RoleDetailResponse>(`${ADMIN_ROLES}/${roleId}`);
+    return data;
+  },
+  async createRole(request: CreateRoleRequest) {
+    const { data } = await api.post<RoleResponse>(ADMIN_ROLES, request);
+    return data;
+  },
+  async updateRole(roleId: string, request: UpdateRoleRequest) {
+    const { data } = await api.put<RoleResponse>(`${ADMIN_ROLES}/${roleId}`, request);
+    return data;
+  },
+  async deleteRole(roleId: string) {
+    await api.delete(`${ADMIN_ROLES}/${roleId}`);
+  },
+  async getRoleUsers(roleId: string, params: PaginationQuery = {}) {
+    const { data } = await api.get<PaginatedResponse<UserResponse>>(
+      `${ADMIN_ROLES}/${roleId}/users`,
+      { params }
+    );
+    return data;
+  },
+
+  async getOrders(params: AdminOrderQueryParams = {}) {
+    const { data } = await api.get<PaginatedResponse<OrderListResponse>>(ADMIN_ORDERS, {
+      params,
+    });
+    return data;
+  },
+  async getOrder(id: number) {
+    const { data } = await api.get<OrderResponse>(`${ADMIN_ORDERS}/${id}`);
+    return data;
+  },
+  async updateOrderStatus(id: number, request: UpdateOrderStatusRequest) {
+    await api.patch(`${ADMIN_ORDERS}/${id}/status`, request);
+  },
+};
@@ -0,0 +1,38 @@
+import { Link, Outlet, useLocation } from "react-router-dom";
+
+const ADMIN_SECTIONS = [
+  { to: "/admin/users", label: "Usuarios" },
+  { to: "/admin/roles", label: "Roles" },
+  { to: "/admin/products", label: "Productos" },
+  { to: "/admin/categories", label: "Categorías" },
+  { to: "/admin/inventory", label: "Inventario" },
+  { to: "/admin/orders", label: "Pedidos" },
+];
+
+export function AdminLayout() {
+  const { pathname } = useLocation();
+
+  return (
+    <div>
+      <nav className="flex gap-1 border-b border-gray-200 mb-2 overflow-x-auto">
+        {ADMIN_SECTIONS.map((section) => {
+          const active = pathname.startsWith(section.to);
+          return (
+            <Link
+              key={section.to}
+              to={section.to}
+              className={`px-4 py-2 text-sm font-medium whitespace-nowrap border-b-2 -mb-px transition-colors ${
+                active
+                  ? "border-primary-600 text-primary-600"
+                  : "border-transparent text-gray-500 hover:text-gray-700"
+              }`}
+            >
+              {section.label}
+            </Link>
+          );
+        })}
+      </nav>
+      <Outlet />
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { Modal } from "../../../app/ui/Modal";
+import { getApiErrorMessage } from "../../../lib/api";
+import type { UserResponse } from "../../auth/identityApi";
+import { useAuth } from "../../auth/useAuth";
+import { LOCKOUT_PRESETS } from "../lockout";
+import {
+  useAdminRoles,
+  useBulkUserAction,
+  type BulkUserAction,
+  type BulkUserResult,
+} from "../queries";
+
+export type BulkUserActionType = BulkUserAction["type"];
+
+const ACTION_TITLES: Record<BulkUserActionType, string> = {
+  lock: "Bloquear usuarios",
+  unlock: "Desbloquear usuarios",
+  assignRole: "Asignar rol",
+  removeRole: "Quitar rol",
+  delete: "Eliminar usuarios",
+};
+
+function getResultError(result: BulkUserResult) {
+  return typeof result.error === "string"
+    ? result.error
+    : getApiErrorMessage(result.error, "Error desconocido");
+}
+
+interface BulkUserActionDialogProps {
+  users: UserResponse[];
+  actionType: BulkUserActionType;
+  onClose: () => void;
+  // Se llama al cerrar el informe final
+  onFinished: () => void;
+}
+
+export function BulkUserActionDialog({
+  users,
+  actionType,
+  onClose,
+  onFinished,
+}: BulkUserActionDialogProps) {
+  const { session } = useAuth();
+  const bulkAction = useBulkUserAction();
+  const { data: roles = [] } = useAdminRoles();
+
+  const [lockPreset, setLockPreset] = useState<(typeof LOCKOUT_PRESETS)[number]["id"]>("24h");
+  const [roleName, setRoleName] = useState("");
+  const [done, setDone] = useState(0);
+
+  const needsRole = actionType === "assignRole" || actionType === "removeRole";
+  const results = bulkAction.data;
+
+  const buildAction = (): BulkUserAction => {
+    switch (actionType) {
+      case "lock": {
+        const preset = LOCKOUT_PRESETS.find((p) => p.id === lockPreset)!;
+        return {
+          type: "lock",
+          lockoutEnd:
+            preset.durationMs === null
+              ? null
+              : new Date(Date.now() + preset.durationMs).toISOString(),
+        };
+      }
+      case "assignRole":
+      case "removeRole":
+        return { type: actionType, roleName };
+      default:
+        return { type: actionType };
+    }
+  };
+
+  const handleRun = () => {
+    setDone(0);
+    bulkAction.mutate({
+      users,
+      action: buildAction(),
+      currentUserId: session?.userId,
+      onProgress: setDone,
+    });
+  };
+
+  const handleClose = () => {
+    if (bulkAction.isPending) return;
+    if (results) onFinished();
+    else onClose();
+  };
+
+  const succeeded = results?.filter((r) => r.ok) ?? [];
+  const failed = results?.filter((r) => !r.ok) ?? [];
+
+  return (
+    <Modal
+      open
+      title={ACTION_TITLES[actionType]}
+      onClose={handleClose}
+      footer={
+        results ? (
+          <button onClick={handleClose} className="btn-primary btn-sm">
+            Cerrar
+          </button>
+        ) : (
+          <>
+            <button
+              onClick={handleClose}
+              disabled={bulkAction.isPending}
+              className="btn-outline btn-sm"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={handleRun}
+              disabled={bulkAction.isPending || (needsRole && !roleName)}
+              className={
+                actionType === "delete" || actionType === "lock"
+                  ? "btn btn-sm bg-red-600 text-white hover:bg-red-700"
+                  : "btn-primary btn-sm"
+              }
+            >
+              {bulkAction.isPending ? "Aplicando..." : `Aplicar a ${users.length}`}
+            </button>
+          </>
+        )
+      }
+    >
+      {bulkAction.isPending ? (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-700">
+            Procesando {done} de {users.length} usuarios...
+          </p>
+          <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-primary-600 transition-all"
+              style={{ width: `${(done / users.length) * 100}%` }}
+            />
+          </div>
+        </div>
+      ) : results ? (
+        <div className="space-y-4 text-sm">
+          <p className="text-gray-700">
+            <span className="text-green-700 font-medium">{succeeded.length} correctos</span>
+            {" · "}
+            <span className={failed.length > 0 ? "text-red-700 font-medium" : "text-gray-500"}>
+              {failed.length} con error
+            </span>
+          </p>
+          {failed.length > 0 && (
+            <div>
+              <h3 className="font-medium text-gray-900 mb-1">Fallidos</h3>
+              <ul className="divide-y divide-gray-200 border border-red-200 rounded-md">
+                {failed.map((r) => (
+                  <li key={r.user.userId} className="px-3 py-2">
+                    <span className="font-medium text-gray-900">{r.user.userName}</span>{" "}
+                    <span className="text-gray-500">({r.user.email})</span>
+                    <p className="text-red-700">{getResultError(r)}</p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {succeeded.length > 0 && (
+            <div>
+              <h3 className="font-medium text-gray-900 mb-1">Correctos</h3>
+              <ul className="border rounded-md px-3 py-2 text-gray-700 max-h-40 overflow-y-auto">
+                {succeeded.map((r) => (
+                  <li key={r.user.userId}>
+                    {r.user.userName} <span className="text-gray-500">({r.user.email})</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-4 text-sm">
+          <p className="text-gray-700">
+            Se aplicará a {users.length} usuario{users.length !== 1 ? "s" : ""}:{" "}
+            <span className="text-gray-500">{users.map((u) => u.userName).join(", ")}</span>
+          </p>
+
+          {actionType === "lock" && (
+            <fieldset>
+              <legend className="label">Duración</legend>
+              <div className="grid grid-cols-2 gap-2">
+                {LOCKOUT_PRESETS.map((preset) => (
+                  <label key={preset.id} className="flex items-center gap-2 text-gray-700">
+                    <input
+                      type="radio"
+                      name="bulk-lockout-duration"
+                      checked={lockPreset === preset.id}
+                      onChange={() => setLockPreset(preset.id)}
+                    />
+                    {preset.label}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          )}
+
+          {needsRole && (
+            <div>
+              <label htmlFor="bulk-role" className="label">
+                Rol
+              </label>
+              <select
+                id="bulk-role"
+                value={roleName}
+                onChange={(e) => setRoleName(e.target.value)}
+                className="input"
+              >
+                <option value="">Selecciona un rol</option>
+                {roles.map((r) => (
+                  <option key={r.roleId} value={r.roleName}>
+                    {r.roleName}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {actionType === "delete" && (
+            <p className="text-red-700">Esta acción no se puede deshacer.</p>
+          )}
+
+          {(actionType === "lock" || actionType === "delete") && (
+            <p className="text-gray-500">Tu propia cuenta se omitirá si está seleccionada.</p>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import axios from "axios";
+import { Modal } from "../../../app/ui/Modal";
+import { getApiErrorMessage } from "../../../lib/api";
+import type { CategoryResponse } from "../../catalog/catalogApi";
+import { useCreateCategory, useUpdateCategory } from "../../catalog/queries";
+
+// Mismos límites que CategoryService.ValidateCategoryRequest
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+interface CategoryFormModalProps {
+  // null = crear una categoría nueva
+  category: CategoryResponse | null;
+  onClose: () => void;
+  onSaved: (message: string) => void;
+}
+
+export function CategoryFormModal({ category, onClose, onSaved }: CategoryFormModalProps) {
+  const createCategory = useCreateCategory();
+  const updateCategory = useUpdateCategory();
+  const saving = createCategory.isPending || updateCategory.isPending;
+
+  const [name, setName] = useState(category?.name ?? "");
+  const [description, setDescription] = useState(category?.description ?? "");
+  const [nameError, setNameError] = useState("");
+  const [serverError, setServerError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setNameError("");
+    setServerError("");
+
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      setNameError("El nombre es obligatorio");
+      return;
+    }
+
+    const request = { name: trimmedName, description: description.trim() || null };
+    try {
+      if (category) {
+        await updateCategory.mutateAsync({ id: category.id, request });
+        onSaved(`Categoría "${trimmedName}" actualizada`);
+      } else {
+        await createCategory.mutateAsync(request);
+        onSaved(`Categoría "${trimmedName}" creada`);
+      }
+    } catch (err) {
+      // 409: ya existe una categoría con ese nombre
+      if (axios.isAxiosError(err) && err.response?.status === 409) {
+        setNameError(getApiErrorMessage(err, "Ya existe una categoría con ese nombre"));
+      } else {
+        setServerError(getApiErrorMessage(err, "No se pudo guardar la categoría"));
+      }
+    }
+  };
+
+  return (
+    <Modal
+      open
+      title={category ? "Editar categoría" : "Nueva categoría"}
+      onClose={onClose}
+      footer={
+        <>
+          <button onClick={onClose} disabled={saving} className="btn-outline btn-sm">
+            Cancelar
+          </button>
+          <button type="submit" form="category-form" disabled={saving} className="btn-primary btn-sm">
+            {saving ? "Guardando..." : category ? "Guardar cambios" : "Crear categoría"}
+          </button>
+        </>
+      }
+    >
+      <form id="category-form" onSubmit={handleSubmit} className="space-y-4" noValidate>
+        {serverError && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+            {serverError}
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="category-name" className="label">
+            Nombre *
+          </label>
+          <input
+            id="category-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={MAX_NAME_LENGTH}
+            className="input"
+            disabled={saving}
+            autoFocus
+          />
+          {nameError && <p className="text-sm text-red-600 mt-1">{nameError}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="category-description" className="label">
+            Descripción
+          </label>
+          <textarea
+            id="category-description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            maxLength={MAX_DESCRIPTION_LENGTH}
+            rows={3}
+            className="input"
+            disabled={saving}
+          />
+          <p className="text-xs text-gray-400 text-right mt-1">
+            {description.length}/{MAX_DESCRIPTION_LENGTH}
+          </p>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { Modal } from "../../../app/ui/Modal";
+import { getApiErrorMessage, getApiErrorMessages, getApiFieldErrors } from "../../../lib/api";
+import { useCreateUser } from "../queries";
+import { ROLES } from "../roles";
+import {
+  MAX_EMAIL_LENGTH,
+  MAX_USERNAME_LENGTH,
+  PASSWORD_RULES,
+  validateEmail,
+  validatePassword,
+  validatePhoneNumber,
+  validateUserName,
+} from "../userValidation";
+import { RoleChecklist } from "./RoleChecklist";
+
+const FORM_ID = "create-user-form";
+
+// Igual que UserService.CreateUserAsync cuando no se indican roles
+const DEFAULT_ROLES: string[] = [ROLES.Customer];
+
+type Field = "email" | "password" | "userName" | "phoneNumber";
+type FormErrors = Partial<Record<Field, string>>;
+
+// Los conflictos y errores de Identity llegan como ProblemDetails sin campo:
+// se asignan al campo correspondiente por su texto
+function getFieldForMessage(message: string): Field | null {
+  const lower = message.toLowerCase();
+  if (lower.includes("email")) return "email";
+  if (lower.includes("username") || lower.includes("user name")) return "userName";
+  if (lower.includes("password")) return "password";
+  return null;
+}
+
+interface CreateUserModalProps {
+  onClose: () => void;
+  onCreated: (message: string) => void;
+}
+
+export function CreateUserModal({ onClose, onCreated }: CreateUserModalProps) {
+  const createUser = useCreateUser();
+  const saving = createUser.isPending;
+
+  const [formData, setFormData] = useState({
+    email: "",
+    password: "",
+    userName: "",
+    phoneNumber: "",
+  });
+  const [roles, setRoles] = useState(DEFAULT_ROLES);
+  const [emailConfirmed, setEmailConfirmed] = useState(false);
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [serverError, setServerError] = useState("");
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+    setErrors((prev) => ({ ...prev, [name]: undefined }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setServerError("");
+
+    const values = {
+      email: formData.email.trim(),
+      password: formData.password,
+      userName: formData.userName.trim(),
+      phoneNumber: formData.phoneNumber.trim(),
+    };
+    const result: FormErrors = {
+      email: validateEmail(values.email),
+      password: validatePassword(values.password),
+      // Opcional: sin nombre de usuario, Identity usa el email
+      userName: values.userName ? validateUserName(values.userName) : undefined,
+      phoneNumber: validatePhoneNumber(values.phoneNumber),
+    };
+    setErrors(result);
+    if (Object.values(result).some(Boolean)) return;
+
+    try {
+      const user = await createUser.mutateAsync({
+        ...values,
+        userName: values.userName || null,
+        phoneNumber: values.phoneNumber || null,
+        roles,
+        emailConfirmed,
+      });
+      onCreated(`Usuario "${user.userName}" creado`);
+    } catch (err) {
+      const fieldErrors: FormErrors = getApiFieldErrors(err);
+      const unmatched: string[] = [];
+      if (Object.keys(fieldErrors).length === 0) {
+        for (const message of getApiErrorMessages(err)) {
+          const field = getFieldForMessage(message);
+          if (field) fieldErrors[field] = message;
+          else unmatched.push(message);
+        }
+      }
+      setErrors(fieldErrors);
+      if (unmatched.length > 0 || Object.keys(fieldErrors).length === 0) {
+        setServerError(
+          unmatched.length > 0
+            ? unmatched.join(", ")
+            : getApiErrorMessage(err, "No se pudo crear el usuario")
+        );
+      }
+    }
+  };
+
+  const fieldError = (field: Field) =>
+    errors[field] && <p className="text-sm text-red-600 mt-1">{errors[field]}</p>;
+
+  return (
+    <Modal
+      open
+      title="Nuevo usuario"
+      onClose={onClose}
+      footer={
+        <>
+          <button onClick={onClose} disabled={saving} className="btn-outline btn-sm">
+            Cancelar
+          </button>
+          <button type="submit" form={FORM_ID} disabled={saving} className="btn-primary btn-sm">
+            {saving ? "Creando..." : "Crear usuario"}
+          </button>
+        </>
+      }
+    >
+      <form id={FORM_ID} onSubmit={handleSubmit} className="space-y-4" noValidate>
+        {serverError && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+            {serverError}
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="create-user-email" className="label">
+            Email *
+          </label>
+          <input
+            id="create-user-email"
+            name="email"
+            type="email"
+            value={formData.email}
+            onChange={handleChange}
+            maxLength={MAX_EMAIL_LENGTH}
+            className="input"
+            disabled={saving}
+            autoFocus
+          />
+          {fieldError("email")}
+        </div>
+
+        <div>
+          <label htmlFor="create-user-password" className="label">
+            Contraseña inicial *
+          </label>
+          <input
+            id="create-user-password"
+            name="password"
+            type="password"
+            value={formData.password}
+            onChange={handleChange}
+            autoComplete="new-password"
+            className="input"
+            disabled={saving}
+          />
+          {fieldError("password")}
+          <ul className="mt-2 grid grid-cols-2 gap-1 text-xs">
+            {PASSWORD_RULES.map((rule) => {
+              const ok = rule.test(formData.password);
+              return (
+                <li key={rule.message} className={ok ? "text-green-600" : "text-gray-500"}>
+                  {ok ? "✓" : "•"} {rule.message}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+
+        <div>
+          <label htmlFor="create-user-username" className="label">
+            Nombre de usuario
+          </label>
+          <input
+            id="create-user-username"
+            name="userName"
+            value={formData.userName}
+            onChange={handleChange}
+            maxLength={MAX_USERNAME_LENGTH}
+            placeholder="Si se deja vacío se usa el email"
+            className="input"
+            disabled={saving}
+          />
+          {fieldError("userName")}
+        </div>
+
+        <div>
+          <label htmlFor="create-user-phone" className="label">
+            Teléfono
+          </label>
+          <input
+            id="create-user-phone"
+            name="phoneNumber"
+            type="tel"
+            value={formData.phoneNumber}
+            onChange={handleChange}
+            className="input"
+            disabled={saving}
+          />
+          {fieldError("phoneNumber")}
+        </div>
+
+        <RoleChecklist selected={roles} onChange={setRoles} disabled={saving} />
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={emailConfirmed}
+            onChange={(e) => setEmailConfirmed(e.target.checked)}
+            disabled={saving}
+          />
+          Email ya verificado (no se pedirá confirmación)
+        </label>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { useAdminUser, useAdminUsers } from "../queries";
+
+interface CustomerFilterProps {
+  userId: string | undefined;
+  onChange: (userId: string | undefined) => void;
+}
+
+// El endpoint filtra por userId, así que se busca al cliente por email o nombre
+export function CustomerFilter({ userId, onChange }: CustomerFilterProps) {
+  const [search, setSearch] = useState("");
+  const term = search.trim();
+
+  const { data: selected } = useAdminUser(userId ?? "", !!userId);
+  const showResults = !userId && term.length >= 2;
+  const { data: results, isFetching } = useAdminUsers(
+    { search: term, pageSize: 8 },
+    showResults
+  );
+
+  if (userId) {
+    return (
+      <div className="flex items-center gap-2 px-3 py-2 border border-gray-300 rounded-md bg-gray-50 text-sm">
+        <span className="truncate">
+          Cliente: <strong>{selected?.email ?? userId}</strong>
+        </span>
+        <button
+          onClick={() => onChange(undefined)}
+          className="text-gray-500 hover:text-gray-700"
+          aria-label="Quitar filtro de cliente"
+        >
+          ✕
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Filtrar por cliente..."
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      {showResults && (
+        <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-64 overflow-y-auto">
+          {results && results.data.length > 0 ? (
+            results.data.map((user) => (
+              <li key={user.userId}>
+                <button
+                  onClick={() => {
+                    setSearch("");
+                    onChange(user.userId);
+                  }}
+                  className="w-full text-left px-3 py-2 text-sm hover:bg-gray-50"
+                >
+                  <span className="font-medium text-gray-900">{user.userName}</span>{" "}
+                  <span className="text-gray-500">{user.email}</span>
+                </button>
+              </li>
+            ))
+          ) : (
+            <li className="px-3 py-2 text-sm text-gray-500">
+              {isFetching ? "Buscando..." : "Sin resultados"}
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
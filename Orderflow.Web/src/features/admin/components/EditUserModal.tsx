@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { Modal } from "../../../app/ui/Modal";
+import { getApiErrorMessage } from "../../../lib/api";
+import type { UserDetailResponse } from "../../auth/identityApi";
+import { useAuth } from "../../auth/useAuth";
+import { useAdminUser, useUpdateUser } from "../queries";
+import { ROLES } from "../roles";
+import {
+  MAX_EMAIL_LENGTH,
+  MAX_USERNAME_LENGTH,
+  validateEmail,
+  validatePhoneNumber,
+  validateUserName,
+} from "../userValidation";
+import { RoleChecklist } from "./RoleChecklist";
+
+const FORM_ID = "edit-user-form";
+
+type FormErrors = Partial<Record<"email" | "userName" | "phoneNumber", string>>;
+
+interface EditUserModalProps {
+  userId: string;
+  onClose: () => void;
+  onSaved: (message: string) => void;
+}
+
+export function EditUserModal({ userId, onClose, onSaved }: EditUserModalProps) {
+  const { data: user, isPending, error } = useAdminUser(userId);
+  const updateUser = useUpdateUser();
+
+  return (
+    <Modal
+      open
+      title="Editar usuario"
+      onClose={onClose}
+      footer={
+        <>
+          <button onClick={onClose} disabled={updateUser.isPending} className="btn-outline btn-sm">
+            Cancelar
+          </button>
+          <button
+            type="submit"
+            form={FORM_ID}
+            disabled={updateUser.isPending || !user}
+            className="btn-primary btn-sm"
+          >
+            {updateUser.isPending ? "Guardando..." : "Guardar cambios"}
+          </button>
+        </>
+      }
+    >
+      {updateUser.error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+          {getApiErrorMessage(updateUser.error, "No se pudo guardar el usuario")}
+        </div>
+      )}
+      {isPending ? (
+        <p className="text-gray-500">Cargando usuario...</p>
+      ) : error || !user ? (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {getApiErrorMessage(error, "Error al cargar el usuario")}
+        </div>
+      ) : (
+        <EditUserForm
+          key={user.userId}
+          user={user}
+          saving={updateUser.isPending}
+          onSubmit={(values) =>
+            updateUser.mutate(
+              {
+                userId,
+                request: {
+                  ...values,
+                  // Se conservan los campos que este formulario no edita
+                  emailConfirmed: user.emailConfirmed,
+                  lockoutEnabled: user.lockoutEnabled,
+                },
+                addRoles: values.roles.filter((r) => !user.roles.includes(r)),
+                removeRoles: user.roles.filter((r) => !values.roles.includes(r)),
+              },
+              { onSuccess: (saved) => onSaved(`Usuario "${saved.userName}" actualizado`) }
+            )
+          }
+        />
+      )}
+    </Modal>
+  );
+}
+
+interface EditUserFormValues {
+  email: string;
+  userName: string;
+  phoneNumber: string | null;
+  roles: string[];
+}
+
+function EditUserForm({
+  user,
+  saving,
+  onSubmit,
+}: {
+  user: UserDetailResponse;
+  saving: boolean;
+  onSubmit: (values: EditUserFormValues) => void;
+}) {
+  const { session } = useAuth();
+  // Quitarse el rol Admin a uno mismo dejaría la sesión sin acceso al panel
+  const lockedRoles =
+    session?.userId === user.userId && user.roles.includes(ROLES.Admin)
+      ? { [ROLES.Admin]: "No puedes quitarte tu propio rol de administrador" }
+      : undefined;
+
+  const [formData, setFormData] = useState({
+    email: user.email,
+    userName: user.userName,
+    phoneNumber: user.phoneNumber ?? "",
+  });
+  const [roles, setRoles] = useState(user.roles);
+  const [errors, setErrors] = useState<FormErrors>({});
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+    setErrors((prev) => ({ ...prev, [name]: undefined }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const values = {
+      email: formData.email.trim(),
+      userName: formData.userName.trim(),
+      phoneNumber: formData.phoneNumber.trim(),
+    };
+    const result: FormErrors = {
+      email: validateEmail(values.email),
+      userName: validateUserName(values.userName),
+      phoneNumber: validatePhoneNumber(values.phoneNumber),
+    };
+    setErrors(result);
+    if (Object.values(result).some(Boolean)) return;
+
+    onSubmit({ ...values, phoneNumber: values.phoneNumber || null, roles });
+  };
+
+  return (
+    <form id={FORM_ID} onSubmit={handleSubmit} className="space-y-4" noValidate>
+      <div>
+        <label htmlFor="edit-user-email" className="label">
+          Email *
+        </label>
+        <input
+          id="edit-user-email"
+          name="email"
+          type="email"
+          value={formData.email}
+          onChange={handleChange}
+          maxLength={MAX_EMAIL_LENGTH}
+          className="input"
+          disabled={saving}
+          autoFocus
+        />
+        {errors.email && <p className="text-sm text-red-600 mt-1">{errors.email}</p>}
+      </div>
+
+      <div>
+        <label htmlFor="edit-user-username" className="label">
+          Nombre de usuario *
+        </label>
+        <input
+          id="edit-user-username"
+          name="userName"
+          value={formData.userName}
+          onChange={handleChange}
+          maxLength={MAX_USERNAME_LENGTH}
+          className="input"
+          disabled={saving}
+        />
+        {errors.userName && <p className="text-sm text-red-600 mt-1">{errors.userName}</p>}
+      </div>
+
+      <div>
+        <label htmlFor="edit-user-phone" className="label">
+          Teléfono
+        </label>
+        <input
+          id="edit-user-phone"
+          name="phoneNumber"
+          type="tel"
+          value={formData.phoneNumber}
+          onChange={handleChange}
+          className="input"
+          disabled={saving}
+        />
+        {errors.phoneNumber && <p className="text-sm text-red-600 mt-1">{errors.phoneNumber}</p>}
+      </div>
+
+      <RoleChecklist
+        selected={roles}
+        onChange={setRoles}
+        disabled={saving}
+        lockedRoles={lockedRoles}
+      />
+    </form>
+  );
+}
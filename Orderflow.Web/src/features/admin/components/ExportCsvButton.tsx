@@ -0,0 +1,40 @@
+import { useState } from "react";
+import { getApiErrorMessage } from "../../../lib/api";
+import { downloadCsv } from "../../../lib/csv";
+import type { ExportProgress } from "../exports";
+
+interface ExportCsvButtonProps {
+  // Nombre base del archivo; se le añade la fecha
+  filename: string;
+  exportChunks: (onProgress: ExportProgress) => Promise<string[]>;
+}
+
+export function ExportCsvButton({ filename, exportChunks }: ExportCsvButtonProps) {
+  const [progress, setProgress] = useState<{ page: number; totalPages: number } | null>(null);
+  const [error, setError] = useState("");
+
+  const handleExport = async () => {
+    setError("");
+    setProgress({ page: 0, totalPages: 1 });
+    try {
+      const chunks = await exportChunks((page, totalPages) => setProgress({ page, totalPages }));
+      const date = new Date().toISOString().slice(0, 10);
+      downloadCsv(`${filename}-${date}.csv`, chunks);
+    } catch (err) {
+      setError(getApiErrorMessage(err, "No se pudo exportar"));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <button onClick={handleExport} disabled={progress !== null} className="btn-outline btn-md">
+        {progress
+          ? `Exportando ${progress.page}/${progress.totalPages}...`
+          : "Exportar CSV"}
+      </button>
+      {error && <span className="text-sm text-red-600">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { Modal } from "../../../app/ui/Modal";
+import { getApiErrorMessage } from "../../../lib/api";
+import type { UserResponse } from "../../auth/identityApi";
+import { LOCKOUT_PRESETS } from "../lockout";
+import { useLockUser } from "../queries";
+
+const MAX_REASON_LENGTH = 500;
+const FORM_ID = "lock-user-form";
+
+type DurationOption = (typeof LOCKOUT_PRESETS)[number]["id"] | "custom";
+
+interface LockUserDialogProps {
+  user: UserResponse;
+  onClose: () => void;
+  onDone: (message: string) => void;
+}
+
+export function LockUserDialog({ user, onClose, onDone }: LockUserDialogProps) {
+  const lockUser = useLockUser();
+  const [duration, setDuration] = useState<DurationOption>("24h");
+  const [customDate, setCustomDate] = useState("");
+  const [reason, setReason] = useState("");
+  const [dateError, setDateError] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setDateError("");
+
+    let lockoutEnd: string | null;
+    if (duration === "custom") {
+      const end = new Date(customDate);
+      if (!customDate || Number.isNaN(end.getTime())) {
+        setDateError("Selecciona una fecha de fin");
+        return;
+      }
+      if (end.getTime() <= Date.now()) {
+        setDateError("La fecha de fin debe ser futura");
+        return;
+      }
+      lockoutEnd = end.toISOString();
+    } else {
+      const preset = LOCKOUT_PRESETS.find((p) => p.id === duration)!;
+      lockoutEnd =
+        preset.durationMs === null ? null : new Date(Date.now() + preset.durationMs).toISOString();
+    }
+
+    lockUser.mutate(
+      { userId: user.userId, request: { lockoutEnd, reason: reason.trim() || null } },
+      { onSuccess: () => onDone(`Usuario "${user.userName}" bloqueado`) }
+    );
+  };
+
+  return (
+    <Modal
+      open
+      title={`Bloquear a ${user.userName}`}
+      onClose={onClose}
+      footer={
+        <>
+          <button onClick={onClose} disabled={lockUser.isPending} className="btn-outline btn-sm">
+            Cancelar
+          </button>
+          <button
+            type="submit"
+            form={FORM_ID}
+            disabled={lockUser.isPending}
+            className="btn btn-sm bg-red-600 text-white hover:bg-red-700"
+          >
+            {lockUser.isPending ? "Bloqueando..." : "Bloquear usuario"}
+          </button>
+        </>
+      }
+    >
+      <form id={FORM_ID} onSubmit={handleSubmit} className="space-y-4" noValidate>
+        {lockUser.error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+            {getApiErrorMessage(lockUser.error, "No se pudo bloquear el usuario")}
+          </div>
+        )}
+
+        {!user.lockoutEnabled && (
+          <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded text-sm">
+            Este usuario tiene el bloqueo deshabilitado, por lo que Identity puede rechazar la
+            operación.
+          </div>
+        )}
+
+        <fieldset>
+          <legend className="label">Duración</legend>
+          <div className="grid grid-cols-2 gap-2">
+            {[...LOCKOUT_PRESETS, { id: "custom" as const, label: "Hasta una fecha" }].map(
+              (option) => (
+                <label key={option.id} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="lockout-duration"
+                    value={option.id}
+                    checked={duration === option.id}
+                    onChange={() => setDuration(option.id)}
+                    disabled={lockUser.isPending}
+                  />
+                  {option.label}
+                </label>
+              )
+            )}
+          </div>
+        </fieldset>
+
+        {duration === "custom" && (
+          <div>
+            <label htmlFor="lockout-end" className="label">
+              Bloqueado hasta *
+            </label>
+            <input
+              id="lockout-end"
+              type="datetime-local"
+              value={customDate}
+              onChange={(e) => setCustomDate(e.target.value)}
+              className="input"
+              disabled={lockUser.isPending}
+            />
+            {dateError && <p className="text-sm text-red-600 mt-1">{dateError}</p>}
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="lockout-reason" className="label">
+            Motivo (opcional)
+          </label>
+          <textarea
+            id="lockout-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            maxLength={MAX_REASON_LENGTH}
+            rows={3}
+            className="input"
+            disabled={lockUser.isPending}
+          />
+          <p className="text-xs text-gray-400 text-right mt-1">
+            {reason.length}/{MAX_REASON_LENGTH}
+          </p>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,150 @@
+import { Drawer } from "../../../app/ui/Drawer";
+import { getApiErrorMessage } from "../../../lib/api";
+import { formatCurrency, formatDate } from "../../../lib/format";
+import { OrderStatusBadge } from "../../orders/components/OrderStatusBadge";
+import { OrderStatusTimeline } from "../../orders/components/OrderStatusTimeline";
+import { getNextOrderStatus, ORDER_STATUS_LABELS } from "../../orders/orderStatus";
+import { useAdminOrder, useAdminUser, useUpdateOrderStatus } from "../queries";
+
+interface OrderDetailDrawerProps {
+  orderId: number | null;
+  onClose: () => void;
+  onStatusChanged: (message: string) => void;
+  onFilterByCustomer: (userId: string) => void;
+}
+
+export function OrderDetailDrawer({
+  orderId,
+  onClose,
+  onStatusChanged,
+  onFilterByCustomer,
+}: OrderDetailDrawerProps) {
+  const { data: order, isPending, error } = useAdminOrder(orderId ?? 0, orderId !== null);
+  const { data: customer } = useAdminUser(order?.userId ?? "", !!order);
+  const updateStatus = useUpdateOrderStatus();
+
+  const nextStatus = order ? getNextOrderStatus(order.status) : null;
+
+  const handleAdvance = () => {
+    if (!order || !nextStatus) return;
+    updateStatus.mutate(
+      { orderId: order.id, status: nextStatus },
+      {
+        onSuccess: () =>
+          onStatusChanged(
+            `Pedido #${order.id} marcado como ${ORDER_STATUS_LABELS[nextStatus].toLowerCase()}`
+          ),
+      }
+    );
+  };
+
+  const handleClose = () => {
+    updateStatus.reset();
+    onClose();
+  };
+
+  return (
+    <Drawer
+      open={orderId !== null}
+      title={orderId !== null ? `Pedido #${orderId}` : ""}
+      onClose={handleClose}
+      footer={
+        order &&
+        nextStatus && (
+          <button
+            onClick={handleAdvance}
+            disabled={updateStatus.isPending}
+            className="btn-primary btn-md"
+          >
+            {updateStatus.isPending
+              ? "Actualizando..."
+              : `Marcar como ${ORDER_STATUS_LABELS[nextStatus].toLowerCase()}`}
+          </button>
+        )
+      }
+    >
+      {isPending ? (
+        <p className="text-gray-500">Cargando pedido...</p>
+      ) : error || !order ? (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {getApiErrorMessage(error, "No se pudo cargar el pedido")}
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {updateStatus.error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+              {getApiErrorMessage(updateStatus.error, "No se pudo actualizar el estado")}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <OrderStatusBadge status={order.status} />
+            <span className="text-sm text-gray-500">
+              {formatDate(order.createdAt)}
+              {order.updatedAt && <> · Actualizado el {formatDate(order.updatedAt)}</>}
+            </span>
+          </div>
+
+          <OrderStatusTimeline status={order.status} />
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-1">Cliente</h3>
+            {customer ? (
+              <p className="text-gray-900">
+                {customer.userName}{" "}
+                <span className="text-gray-500 text-sm">({customer.email})</span>
+              </p>
+            ) : (
+              <p className="text-gray-500 text-sm font-mono">{order.userId}</p>
+            )}
+            <button
+              onClick={() => onFilterByCustomer(order.userId)}
+              className="text-sm text-primary-600 hover:text-primary-700 font-medium mt-1"
+            >
+              Ver pedidos de este cliente →
+            </button>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Productos</h3>
+            <ul className="divide-y divide-gray-200 border rounded-md">
+              {order.items.map((item) => (
+                <li key={item.id} className="flex justify-between gap-4 px-4 py-2 text-sm">
+                  <span className="text-gray-900">
+                    {item.productName}{" "}
+                    <span className="text-gray-500">
+                      × {item.quantity} ({formatCurrency(item.unitPrice)})
+                    </span>
+                  </span>
+                  <span className="font-semibold">{formatCurrency(item.subtotal)}</span>
+                </li>
+              ))}
+              <li className="flex justify-between px-4 py-2 font-bold">
+                <span>Total</span>
+                <span className="text-primary-600">{formatCurrency(order.totalAmount)}</span>
+              </li>
+            </ul>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-1">Dirección de envío</h3>
+            <p className="text-gray-900 whitespace-pre-line">
+              {order.shippingAddress || "No especificada"}
+            </p>
+          </div>
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-1">Notas</h3>
+            <p className="text-gray-900 whitespace-pre-line">{order.notes || "Sin notas"}</p>
+          </div>
+
+          {!nextStatus && (
+            <p className="text-sm text-gray-500">
+              Este pedido está {ORDER_STATUS_LABELS[order.status].toLowerCase()} y no admite más
+              cambios de estado.
+            </p>
+          )}
+        </div>
+      )}
+    </Drawer>
+  );
+}
@@ -0,0 +1,252 @@
+import { useState } from "react";
+import { Modal } from "../../../app/ui/Modal";
+import { getApiErrorMessage } from "../../../lib/api";
+import type { ProductResponse } from "../../catalog/catalogApi";
+import {
+  useAllCategories,
+  useCreateProduct,
+  useProduct,
+  useUpdateProduct,
+} from "../../catalog/queries";
+import {
+  MAX_PRODUCT_DESCRIPTION_LENGTH,
+  MAX_PRODUCT_NAME_LENGTH,
+  validateProductFields,
+  type ProductFieldErrors,
+} from "../productValidation";
+
+const FORM_ID = "product-form";
+
+interface ProductFormModalProps {
+  // null = crear un producto nuevo
+  productId: number | null;
+  onClose: () => void;
+  onSaved: (message: string) => void;
+}
+
+interface ProductFormValues {
+  name: string;
+  description: string | null;
+  price: number;
+  categoryId: number;
+  initialStock: number;
+  isActive: boolean;
+}
+
+export function ProductFormModal({ productId, onClose, onSaved }: ProductFormModalProps) {
+  const isEdit = productId !== null;
+  const { data: product, isPending, error } = useProduct(productId ?? 0, isEdit);
+  const createProduct = useCreateProduct();
+  const updateProduct = useUpdateProduct();
+  const saving = createProduct.isPending || updateProduct.isPending;
+  const [serverError, setServerError] = useState("");
+
+  const handleSubmit = async ({ initialStock, isActive, ...base }: ProductFormValues) => {
+    setServerError("");
+    try {
+      if (productId !== null) {
+        await updateProduct.mutateAsync({ id: productId, request: { ...base, isActive } });
+        onSaved(`Producto "${base.name}" actualizado`);
+      } else {
+        await createProduct.mutateAsync({ ...base, initialStock });
+        onSaved(`Producto "${base.name}" creado`);
+      }
+    } catch (err) {
+      setServerError(getApiErrorMessage(err, "No se pudo guardar el producto"));
+    }
+  };
+
+  return (
+    <Modal
+      open
+      title={isEdit ? "Editar producto" : "Nuevo producto"}
+      onClose={onClose}
+      size="lg"
+      footer={
+        <>
+          <button onClick={onClose} disabled={saving} className="btn-outline btn-sm">
+            Cancelar
+          </button>
+          <button
+            type="submit"
+            form={FORM_ID}
+            disabled={saving || (isEdit && !product)}
+            className="btn-primary btn-sm"
+          >
+            {saving ? "Guardando..." : isEdit ? "Guardar cambios" : "Crear producto"}
+          </button>
+        </>
+      }
+    >
+      {serverError && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+          {serverError}
+        </div>
+      )}
+      {!isEdit ? (
+        <ProductForm saving={saving} onSubmit={handleSubmit} />
+      ) : isPending ? (
+        <p className="text-gray-500">Cargando producto...</p>
+      ) : error || !product ? (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {getApiErrorMessage(error, "Error al cargar el producto")}
+        </div>
+      ) : (
+        <ProductForm key={product.id} product={product} saving={saving} onSubmit={handleSubmit} />
+      )}
+    </Modal>
+  );
+}
+
+function ProductForm({
+  product,
+  saving,
+  onSubmit,
+}: {
+  product?: ProductResponse;
+  saving: boolean;
+  onSubmit: (values: ProductFormValues) => void;
+}) {
+  const { data: categories = [] } = useAllCategories();
+
+  const [formData, setFormData] = useState({
+    name: product?.name ?? "",
+    description: product?.description ?? "",
+    price: product ? product.price.toString() : "",
+    initialStock: "0",
+    categoryId: product ? product.categoryId.toString() : "",
+    isActive: product?.isActive ?? true,
+  });
+  const [errors, setErrors] = useState<ProductFieldErrors>({});
+
+  const validate = () => validateProductFields(formData, { isNew: !product });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationErrors = validate();
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    onSubmit({
+      name: formData.name.trim(),
+      description: formData.description.trim() || null,
+      price: Number(formData.price),
+      categoryId: Number(formData.categoryId),
+      initialStock: Number(formData.initialStock),
+      isActive: formData.isActive,
+    });
+  };
+
+  const fieldError = (field: keyof ProductFieldErrors) =>
+    errors[field] && <p className="text-sm text-red-600 mt-1">{errors[field]}</p>;
+
+  return (
+    <form id={FORM_ID} onSubmit={handleSubmit} className="space-y-4" noValidate>
+      <div>
+        <label htmlFor="product-name" className="label">
+          Nombre *
+        </label>
+        <input
+          id="product-name"
+          value={formData.name}
+          onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+          maxLength={MAX_PRODUCT_NAME_LENGTH}
+          className="input"
+          disabled={saving}
+        />
+        {fieldError("name")}
+      </div>
+
+      <div>
+        <label htmlFor="product-description" className="label">
+          Descripción
+        </label>
+        <textarea
+          id="product-description"
+          value={formData.description}
+          onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+          maxLength={MAX_PRODUCT_DESCRIPTION_LENGTH}
+          rows={4}
+          className="input"
+          disabled={saving}
+        />
+        <p className="text-xs text-gray-400 text-right mt-1">
+          {formData.description.length}/{MAX_PRODUCT_DESCRIPTION_LENGTH}
+        </p>
+        {fieldError("description")}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="product-price" className="label">
+            Precio *
+          </label>
+          <input
+            id="product-price"
+            type="number"
+            min="0.01"
+            step="0.01"
+            value={formData.price}
+            onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+            className="input"
+            disabled={saving}
+          />
+          {fieldError("price")}
+        </div>
+
+        <div>
+          <label htmlFor="product-category" className="label">
+            Categoría *
+          </label>
+          <select
+            id="product-category"
+            value={formData.categoryId}
+            onChange={(e) => setFormData({ ...formData, categoryId: e.target.value })}
+            className="input"
+            disabled={saving}
+          >
+            <option value="">Selecciona una categoría</option>
+            {categories.map((category) => (
+              <option key={category.id} value={category.id}>
+                {category.name}
+              </option>
+            ))}
+          </select>
+          {fieldError("categoryId")}
+        </div>
+
+        {!product && (
+          <div>
+            <label htmlFor="product-stock" className="label">
+              Stock inicial
+            </label>
+            <input
+              id="product-stock"
+              type="number"
+              min="0"
+              step="1"
+              value={formData.initialStock}
+              onChange={(e) => setFormData({ ...formData, initialStock: e.target.value })}
+              className="input"
+              disabled={saving}
+            />
+            {fieldError("initialStock")}
+          </div>
+        )}
+      </div>
+
+      {product && (
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={formData.isActive}
+            onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+            disabled={saving}
+          />
+          Producto activo (visible en el catálogo)
+        </label>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { Modal } from "../../../app/ui/Modal";
+import { getApiErrorMessage } from "../../../lib/api";
+import { parseCsv } from "../../../lib/csv";
+import { formatCurrency } from "../../../lib/format";
+import { useAllCategories, useImportProducts } from "../../catalog/queries";
+import {
+  parseProductImport,
+  PRODUCT_IMPORT_COLUMNS,
+  type ProductImportRow,
+} from "../productImport";
+
+interface ProductImportModalProps {
+  onClose: () => void;
+  onImported: (message: string) => void;
+}
+
+// Flujo: elegir archivo → vista previa (simulación, no crea nada) → importar → informe
+export function ProductImportModal({ onClose, onImported }: ProductImportModalProps) {
+  // Sin categorías todas las filas se marcarían como inválidas: no se admite archivo
+  const {
+    data: categories = [],
+    isPending: categoriesLoading,
+    error: categoriesError,
+  } = useAllCategories();
+  const importProducts = useImportProducts();
+
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<ProductImportRow[] | null>(null);
+  const [fileError, setFileError] = useState("");
+  const [done, setDone] = useState(0);
+
+  const validRows = rows?.filter((r) => r.request !== null) ?? [];
+  const invalidRows = rows?.filter((r) => r.request === null) ?? [];
+  const results = importProducts.data;
+  const failed = results?.filter((r) => !r.ok) ?? [];
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setFileError("");
+    setRows(null);
+    importProducts.reset();
+
+    const parsed = parseProductImport(parseCsv(await file.text()), categories);
+    if (parsed.error) {
+      setFileError(parsed.error);
+    } else if (parsed.rows.length === 0) {
+      setFileError("El archivo no contiene productos");
+    } else {
+      setRows(parsed.rows);
+    }
+  };
+
+  const handleImport = () => {
+    setDone(0);
+    importProducts.mutate({
+      requests: validRows.map((r) => r.request!),
+      onProgress: setDone,
+    });
+  };
+
+  const handleClose = () => {
+    if (importProducts.isPending) return;
+    if (results) {
+      const created = results.length - failed.length;
+      const plural = created !== 1 ? "s" : "";
+      onImported(`${created} producto${plural} importado${plural}`);
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <Modal
+      open
+      title="Importar productos desde CSV"
+      onClose={handleClose}
+      size="lg"
+      footer={
+        results ? (
+          <button onClick={handleClose} className="btn-primary btn-sm">
+            Cerrar
+          </button>
+        ) : (
+          <>
+            <button
+              onClick={handleClose}
+              disabled={importProducts.isPending}
+              className="btn-outline btn-sm"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={validRows.length === 0 || importProducts.isPending}
+              className="btn-primary btn-sm"
+            >
+              {importProducts.isPending
+                ? `Importando ${done}/${validRows.length}...`
+                : `Crear ${validRows.length} producto${validRows.length !== 1 ? "s" : ""}`}
+            </button>
+          </>
+        )
+      }
+    >
+      <div className="space-y-4 text-sm">
+        {!results && (
+          <div>
+            <p className="text-gray-600 mb-2">
+              La primera fila debe ser la cabecera. Columnas:{" "}
+              <code className="text-xs">{PRODUCT_IMPORT_COLUMNS.join(", ")}</code>. Obligatorias:
+              name, price y categoryId o category (nombre de la categoría).
+            </p>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFile}
+              disabled={categoriesLoading || !!categoriesError || importProducts.isPending}
+              aria-label="Archivo CSV"
+            />
+            {categoriesError && (
+              <p className="text-red-600 mt-2">
+                {getApiErrorMessage(categoriesError, "No se pudieron cargar las categorías")}
+              </p>
+            )}
+            {fileError && <p className="text-red-600 mt-2">{fileError}</p>}
+          </div>
+        )}
+
+        {results ? (
+          <div className="space-y-3">
+            <p className="text-gray-700">
+              <span className="text-green-700 font-medium">
+                {results.length - failed.length} creados
+              </span>
+              {" · "}
+              <span className={failed.length > 0 ? "text-red-700 font-medium" : "text-gray-500"}>
+                {failed.length} con error
+              </span>
+              {invalidRows.length > 0 && (
+                <span className="text-gray-500">
+                  {" "}
+                  · {invalidRows.length} omitidos por validación
+                </span>
+              )}
+            </p>
+            {failed.length > 0 && (
+              <ul className="divide-y divide-gray-200 border border-red-200 rounded-md">
+                {failed.map((r, i) => (
+                  <li key={i} className="px-3 py-2">
+                    <span className="font-medium text-gray-900">{r.request.name}</span>
+                    <p className="text-red-700">
+                      {getApiErrorMessage(r.error, "No se pudo crear el producto")}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ) : (
+          rows && (
+            <div>
+              <p className="text-gray-700 mb-2">
+                <strong>{fileName}</strong>: {validRows.length} válido
+                {validRows.length !== 1 ? "s" : ""}
+                {invalidRows.length > 0 && (
+                  <span className="text-red-700">
+                    , {invalidRows.length} con errores (no se importarán)
+                  </span>
+                )}
+                . Vista previa: todavía no se ha creado nada.
+              </p>
+              <div className="border rounded-md max-h-80 overflow-y-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                        Línea
+                      </th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                        Producto
+                      </th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                        Precio
+                      </th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                        Stock
+                      </th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                        Categoría / errores
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {rows.map((row) => (
+                      <tr key={row.line} className={row.request ? "" : "bg-red-50"}>
+                        <td className="px-3 py-2 text-gray-500">{row.line}</td>
+                        <td className="px-3 py-2 font-medium text-gray-900">
+                          {row.name || <span className="text-gray-400">(sin nombre)</span>}
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          {row.request ? formatCurrency(row.request.price) : "—"}
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          {row.request ? row.request.initialStock : "—"}
+                        </td>
+                        <td className="px-3 py-2">
+                          {row.request ? (
+                            categories.find((c) => c.id === row.request!.categoryId)?.name
+                          ) : (
+                            <ul className="text-red-700 list-disc list-inside">
+                              {row.errors.map((error) => (
+                                <li key={error}>{error}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,59 @@
+import { getApiErrorMessage } from "../../../lib/api";
+import { useAdminRoles } from "../queries";
+
+interface RoleChecklistProps {
+  selected: string[];
+  onChange: (roles: string[]) => void;
+  disabled?: boolean;
+  // Roles que no se pueden desmarcar, con el motivo como tooltip
+  lockedRoles?: Record<string, string>;
+}
+
+export function RoleChecklist({
+  selected,
+  onChange,
+  disabled,
+  lockedRoles = {},
+}: RoleChecklistProps) {
+  const { data: roles, isPending, error } = useAdminRoles();
+
+  const toggle = (role: string) => {
+    onChange(selected.includes(role) ? selected.filter((r) => r !== role) : [...selected, role]);
+  };
+
+  return (
+    <fieldset>
+      <legend className="label">Roles</legend>
+      {isPending ? (
+        <p className="text-sm text-gray-500">Cargando roles...</p>
+      ) : error ? (
+        <p className="text-sm text-red-600">
+          {getApiErrorMessage(error, "No se pudieron cargar los roles")}
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          {roles.map((role) => {
+            const lockReason = lockedRoles[role.roleName];
+            return (
+              <label
+                key={role.roleId}
+                className={`flex items-center gap-2 text-sm ${
+                  lockReason ? "text-gray-400" : "text-gray-700"
+                }`}
+                title={lockReason}
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.includes(role.roleName)}
+                  onChange={() => toggle(role.roleName)}
+                  disabled={disabled || !!lockReason}
+                />
+                {role.roleName}
+              </label>
+            );
+          })}
+        </div>
+      )}
+    </fieldset>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { Modal } from "../../../app/ui/Modal";
+import { getApiErrorMessage, getApiFieldErrors } from "../../../lib/api";
+import type { RoleResponse } from "../adminApi";
+import { useCreateRole, useUpdateRole } from "../queries";
+import { MAX_ROLE_NAME_LENGTH, validateRoleName } from "../roles";
+
+interface RoleFormModalProps {
+  // null = crear un rol nuevo
+  role: RoleResponse | null;
+  onClose: () => void;
+  onSaved: (message: string) => void;
+}
+
+export function RoleFormModal({ role, onClose, onSaved }: RoleFormModalProps) {
+  const createRole = useCreateRole();
+  const updateRole = useUpdateRole();
+  const saving = createRole.isPending || updateRole.isPending;
+
+  const [roleName, setRoleName] = useState(role?.roleName ?? "");
+  const [nameError, setNameError] = useState("");
+  const [serverError, setServerError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setServerError("");
+
+    const trimmed = roleName.trim();
+    const error = validateRoleName(trimmed);
+    setNameError(error ?? "");
+    if (error) return;
+
+    try {
+      if (role) {
+        await updateRole.mutateAsync({ roleId: role.roleId, request: { roleName: trimmed } });
+        onSaved(`Rol "${role.roleName}" renombrado a "${trimmed}"`);
+      } else {
+        await createRole.mutateAsync({ roleName: trimmed });
+        onSaved(`Rol "${trimmed}" creado`);
+      }
+    } catch (err) {
+      const fieldError = getApiFieldErrors(err).roleName;
+      const message = getApiErrorMessage(err, "No se pudo guardar el rol");
+      // "A role with this name already exists" llega como ProblemDetails
+      if (fieldError || message.toLowerCase().includes("already exists")) {
+        setNameError(fieldError ?? message);
+      } else {
+        setServerError(message);
+      }
+    }
+  };
+
+  return (
+    <Modal
+      open
+      title={role ? "Renombrar rol" : "Nuevo rol"}
+      onClose={onClose}
+      size="sm"
+      footer={
+        <>
+          <button onClick={onClose} disabled={saving} className="btn-outline btn-sm">
+            Cancelar
+          </button>
+          <button type="submit" form="role-form" disabled={saving} className="btn-primary btn-sm">
+            {saving ? "Guardando..." : role ? "Guardar cambios" : "Crear rol"}
+          </button>
+        </>
+      }
+    >
+      <form id="role-form" onSubmit={handleSubmit} className="space-y-4" noValidate>
+        {serverError && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+            {serverError}
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="role-name" className="label">
+            Nombre *
+          </label>
+          <input
+            id="role-name"
+            value={roleName}
+            onChange={(e) => setRoleName(e.target.value)}
+            maxLength={MAX_ROLE_NAME_LENGTH}
+            className="input"
+            disabled={saving}
+            autoFocus
+          />
+          {nameError ? (
+            <p className="text-sm text-red-600 mt-1">{nameError}</p>
+          ) : (
+            <p className="text-xs text-gray-500 mt-1">
+              Letras, números, guiones y guiones bajos (p. ej. <code>Support</code>)
+            </p>
+          )}
+        </div>
+      </form>
+    </Modal>
+  );
+}
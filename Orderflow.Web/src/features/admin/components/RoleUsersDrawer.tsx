@@ -0,0 +1,68 @@
+import { useState } from "react";
+import { Drawer } from "../../../app/ui/Drawer";
+import { Pagination } from "../../../app/ui/Pagination";
+import { getApiErrorMessage } from "../../../lib/api";
+import type { RoleResponse } from "../adminApi";
+import { useRoleUsers } from "../queries";
+
+const PAGE_SIZE = 20;
+
+interface RoleUsersDrawerProps {
+  role: RoleResponse | null;
+  onClose: () => void;
+}
+
+export function RoleUsersDrawer({ role, onClose }: RoleUsersDrawerProps) {
+  // La página se reinicia al cambiar de rol
+  const [state, setState] = useState({ roleId: role?.roleId, page: 1 });
+  if (state.roleId !== role?.roleId) {
+    setState({ roleId: role?.roleId, page: 1 });
+  }
+
+  const { data, isPending, isFetching, error } = useRoleUsers(
+    role?.roleId ?? "",
+    { page: state.page, pageSize: PAGE_SIZE },
+    role !== null
+  );
+  const users = data?.data ?? [];
+  const pagination = data?.pagination;
+
+  return (
+    <Drawer
+      open={role !== null}
+      title={role ? `Usuarios con el rol ${role.roleName}` : ""}
+      onClose={onClose}
+    >
+      {isPending ? (
+        <p className="text-gray-500">Cargando usuarios...</p>
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {getApiErrorMessage(error, "No se pudieron cargar los usuarios")}
+        </div>
+      ) : users.length === 0 ? (
+        <p className="text-gray-500">Ningún usuario tiene este rol.</p>
+      ) : (
+        <>
+          <ul className="divide-y divide-gray-200 border rounded-md">
+            {users.map((user) => (
+              <li key={user.userId} className="px-4 py-3">
+                <p className="text-sm font-medium text-gray-900">{user.userName}</p>
+                <p className="text-sm text-gray-500">{user.email}</p>
+              </li>
+            ))}
+          </ul>
+          {pagination && pagination.totalPages > 1 && (
+            <div className="mt-4">
+              <Pagination
+                page={pagination.page}
+                totalPages={pagination.totalPages}
+                onPageChange={(page) => setState((prev) => ({ ...prev, page }))}
+                disabled={isFetching}
+              />
+            </div>
+          )}
+        </>
+      )}
+    </Drawer>
+  );
+}
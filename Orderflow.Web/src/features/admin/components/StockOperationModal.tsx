@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { Modal } from "../../../app/ui/Modal";
+import { getApiErrorMessage } from "../../../lib/api";
+import type { StockResponse } from "../../catalog/catalogApi";
+import { useStockOperation, type StockOperation } from "../../catalog/queries";
+
+interface StockOperationModalProps {
+  stock: StockResponse;
+  operation: StockOperation;
+  onClose: () => void;
+  onDone: (message: string) => void;
+}
+
+export function StockOperationModal({ stock, operation, onClose, onDone }: StockOperationModalProps) {
+  const stockOperation = useStockOperation();
+  const [quantity, setQuantity] = useState("1");
+  const [error, setError] = useState("");
+
+  const isReserve = operation === "reserve";
+  const max = isReserve ? stock.quantityAvailable : stock.quantityReserved;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    const value = Number(quantity);
+    if (!Number.isInteger(value) || value <= 0) {
+      setError("La cantidad debe ser un entero mayor que 0");
+      return;
+    }
+    if (value > max) {
+      setError(
+        isReserve
+          ? `Solo hay ${max} unidades disponibles para reservar`
+          : `Solo hay ${max} unidades reservadas para liberar`
+      );
+      return;
+    }
+
+    stockOperation.mutate(
+      { productId: stock.productId, operation, quantity: value },
+      {
+        onSuccess: () =>
+          onDone(
+            `${isReserve ? "Reservadas" : "Liberadas"} ${value} unidades de "${stock.productName}"`
+          ),
+        onError: (err) =>
+          setError(getApiErrorMessage(err, "No se pudo completar la operación de stock")),
+      }
+    );
+  };
+
+  return (
+    <Modal
+      open
+      title={`${isReserve ? "Reservar" : "Liberar"} stock - ${stock.productName}`}
+      onClose={onClose}
+      size="sm"
+      footer={
+        <>
+          <button onClick={onClose} disabled={stockOperation.isPending} className="btn-outline btn-sm">
+            Cancelar
+          </button>
+          <button
+            type="submit"
+            form="stock-operation-form"
+            disabled={stockOperation.isPending || max === 0}
+            className="btn-primary btn-sm"
+          >
+            {stockOperation.isPending ? "Procesando..." : isReserve ? "Reservar" : "Liberar"}
+          </button>
+        </>
+      }
+    >
+      <form id="stock-operation-form" onSubmit={handleSubmit} className="space-y-4" noValidate>
+        <p className="text-sm text-gray-600">
+          {isReserve
+            ? "Mueve unidades de disponible a reservado, igual que al crear un pedido."
+            : "Devuelve unidades reservadas a disponible, igual que al cancelar un pedido."}
+        </p>
+        <div className="grid grid-cols-2 gap-4 text-center text-sm">
+          <div className="bg-green-50 rounded-lg p-2">
+            <div className="text-gray-500">Disponible</div>
+            <div className="text-lg font-bold text-green-700">{stock.quantityAvailable}</div>
+          </div>
+          <div className="bg-yellow-50 rounded-lg p-2">
+            <div className="text-gray-500">Reservado</div>
+            <div className="text-lg font-bold text-yellow-700">{stock.quantityReserved}</div>
+          </div>
+        </div>
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded text-sm">
+            {error}
+          </div>
+        )}
+        <div>
+          <label htmlFor="stock-operation-quantity" className="label">
+            Cantidad
+          </label>
+          <input
+            id="stock-operation-quantity"
+            type="number"
+            min={1}
+            max={max}
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+            className="input"
+            disabled={stockOperation.isPending || max === 0}
+            autoFocus
+          />
+        </div>
+      </form>
+    </Modal>
+  );
+}
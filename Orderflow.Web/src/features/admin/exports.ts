@@ -0,0 +1,71 @@
+import { toCsvRow } from "../../lib/csv";
+import type { PaginatedResponse } from "../../lib/types";
+import { adminApi, type AdminOrderQueryParams, type UserQueryParameters } from "./adminApi";
+
+// Máximo que aceptan los endpoints de administración
+const EXPORT_PAGE_SIZE = 100;
+
+export type ExportProgress = (page: number, totalPages: number) => void;
+
+// Recorre todas las páginas y convierte cada una a CSV según llega
+async function collectCsvPages<T>(
+  header: string[],
+  fetchPage: (page: number) => Promise<PaginatedResponse<T>>,
+  toRow: (item: T) => string,
+  onProgress?: ExportProgress
+) {
+  const chunks = [toCsvRow(header)];
+  let page = 1;
+  let totalPages = 1;
+
+  do {
+    const result = await fetchPage(page);
+    totalPages = result.pagination.totalPages;
+    chunks.push(result.data.map(toRow).join(""));
+    onProgress?.(page, Math.max(totalPages, 1));
+    page++;
+  } while (page <= totalPages);
+
+  return chunks;
+}
+
+export function exportUsersCsv(
+  params: Omit<UserQueryParameters, "page" | "pageSize">,
+  onProgress?: ExportProgress
+) {
+  return collectCsvPages(
+    ["userId", "userName", "email", "emailConfirmed", "roles", "lockoutEnd", "accessFailedCount"],
+    (page) => adminApi.getUsers({ ...params, page, pageSize: EXPORT_PAGE_SIZE }),
+    (user) =>
+      toCsvRow([
+        user.userId,
+        user.userName,
+        user.email,
+        user.emailConfirmed,
+        user.roles.join(";"),
+        user.lockoutEnd,
+        user.accessFailedCount,
+      ]),
+    onProgress
+  );
+}
+
+export function exportOrdersCsv(
+  params: Omit<AdminOrderQueryParams, "page" | "pageSize">,
+  onProgress?: ExportProgress
+) {
+  return collectCsvPages(
+    ["id", "userId", "status", "totalAmount", "itemCount", "createdAt"],
+    (page) => adminApi.getOrders({ ...params, page, pageSize: EXPORT_PAGE_SIZE }),
+    (order) =>
+      toCsvRow([
+        order.id,
+        order.userId,
+        order.status,
+        order.totalAmount,
+        order.itemCount,
+        order.createdAt,
+      ]),
+    onProgress
+  );
+}
@@ -0,0 +1,33 @@
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Sin fecha de fin, Identity bloquea hasta DateTimeOffset.MaxValue
+export const INDEFINITE_LOCKOUT_END = "9999-12-31T23:59:59Z";
+const INDEFINITE_THRESHOLD_MS = 50 * 365 * DAY;
+
+export const LOCKOUT_PRESETS = [
+  { id: "1h", label: "1 hora", durationMs: HOUR },
+  { id: "24h", label: "24 horas", durationMs: DAY },
+  { id: "7d", label: "7 días", durationMs: 7 * DAY },
+  { id: "30d", label: "30 días", durationMs: 30 * DAY },
+  { id: "indefinite", label: "Indefinido", durationMs: null },
+] as const;
+
+export function isUserLocked(lockoutEnd: string | null, now: number) {
+  return !!lockoutEnd && new Date(lockoutEnd).getTime() > now;
+}
+
+// "3 d 4 h", "2 h 15 min", "5 min" o "Indefinido"
+export function formatLockoutRemaining(lockoutEnd: string, now: number) {
+  const remaining = new Date(lockoutEnd).getTime() - now;
+  if (remaining >= INDEFINITE_THRESHOLD_MS) return "Indefinido";
+
+  const days = Math.floor(remaining / DAY);
+  const hours = Math.floor((remaining % DAY) / HOUR);
+  const minutes = Math.floor((remaining % HOUR) / MINUTE);
+
+  if (days > 0) return hours > 0 ? `${days} d ${hours} h` : `${days} d`;
+  if (hours > 0) return minutes > 0 ? `${hours} h ${minutes} min` : `${hours} h`;
+  return `${Math.max(Math.ceil(remaining / MINUTE), 1)} min`;
+}
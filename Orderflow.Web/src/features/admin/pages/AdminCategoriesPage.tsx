@@ -0,0 +1,265 @@
+import { useState } from "react";
+import axios from "axios";
+import { Link } from "react-router-dom";
+import { ConfirmDialog } from "../../../app/ui/ConfirmDialog";
+import { Modal } from "../../../app/ui/Modal";
+import { Pagination } from "../../../app/ui/Pagination";
+import { getApiErrorMessage } from "../../../lib/api";
+import { formatDate } from "../../../lib/format";
+import type { CategoryResponse } from "../../catalog/catalogApi";
+import { useCategories, useDeleteCategory } from "../../catalog/queries";
+import { CategoryFormModal } from "../components/CategoryFormModal";
+
+const PAGE_SIZE = 20;
+
+type Feedback = { type: "success" | "error"; message: string };
+
+export function AdminCategoriesPage() {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [query, setQuery] = useState({ page: 1, search: "" });
+
+  // undefined = cerrado, null = nueva categoría
+  const [formCategory, setFormCategory] = useState<CategoryResponse | null | undefined>(
+    undefined
+  );
+  const [deleteTarget, setDeleteTarget] = useState<CategoryResponse | null>(null);
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+
+  const { data, isPending, isFetching, error } = useCategories({
+    page: query.page,
+    pageSize: PAGE_SIZE,
+    search: query.search || undefined,
+  });
+  const categories = data?.data ?? [];
+  const pagination = data?.pagination;
+
+  const deleteCategory = useDeleteCategory();
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setQuery({ page: 1, search: searchTerm.trim() });
+  };
+
+  const handleSaved = (message: string) => {
+    setFormCategory(undefined);
+    setFeedback({ type: "success", message });
+  };
+
+  const handleDelete = () => {
+    if (!deleteTarget) return;
+    deleteCategory.mutate(deleteTarget.id, {
+      onSuccess: () => {
+        setFeedback({ type: "success", message: `Categoría "${deleteTarget.name}" eliminada` });
+        setDeleteTarget(null);
+      },
+    });
+  };
+
+  const closeDeleteDialog = () => {
+    setDeleteTarget(null);
+    deleteCategory.reset();
+  };
+
+  // 409: la categoría tiene productos asociados (p. ej. se añadieron mientras tanto)
+  const deleteError = deleteCategory.error
+    ? axios.isAxiosError(deleteCategory.error) && deleteCategory.error.response?.status === 409
+      ? `No se puede eliminar: ${getApiErrorMessage(deleteCategory.error, "la categoría tiene productos asociados")}`
+      : getApiErrorMessage(deleteCategory.error, "No se pudo eliminar la categoría")
+    : undefined;
+
+  return (
+    <div className="max-w-7xl mx-auto mt-8">
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Panel de Administración - Categorías</h1>
+          <p className="text-gray-600 mt-2">Organiza el catálogo en categorías</p>
+        </div>
+        <button
+          onClick={() => setFormCategory(null)}
+          className="bg-green-600 hover:bg-green-700 text-white font-medium py-2 px-4 rounded-md transition"
+        >
+          + Nueva Categoría
+        </button>
+      </div>
+
+      {feedback && (
+        <div
+          className={`px-4 py-3 rounded mb-4 border ${
+            feedback.type === "success"
+              ? "bg-green-50 border-green-200 text-green-700"
+              : "bg-red-50 border-red-200 text-red-700"
+          }`}
+        >
+          {feedback.message}
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+          {getApiErrorMessage(error, "Error al cargar las categorías")}
+        </div>
+      )}
+
+      <div className="bg-white shadow-md rounded-lg overflow-hidden">
+        <div className="p-4 border-b border-gray-200">
+          <form onSubmit={handleSearch} className="flex gap-2">
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Buscar categorías..."
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-md transition"
+            >
+              Buscar
+            </button>
+          </form>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Nombre
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Descripción
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Productos
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Creada
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Acciones
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isPending ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                    Cargando categorías...
+                  </td>
+                </tr>
+              ) : categories.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                    No se encontraron categorías
+                  </td>
+                </tr>
+              ) : (
+                categories.map((category) => (
+                  <tr key={category.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <Link
+                        to={`/categories/${category.id}`}
+                        className="text-sm font-medium text-gray-900 hover:text-primary-600"
+                      >
+                        {category.name}
+                      </Link>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500 max-w-md truncate">
+                      {category.description || "—"}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                      <Link
+                        to={`/admin/products?categoryId=${category.id}`}
+                        className="text-blue-600 hover:text-blue-900"
+                      >
+                        {category.productCount}
+                      </Link>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatDate(category.createdAt)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button
+                        onClick={() => setFormCategory(category)}
+                        className="text-blue-600 hover:text-blue-900 mr-3"
+                      >
+                        Editar
+                      </button>
+                      <button
+                        onClick={() => setDeleteTarget(category)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        Eliminar
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {pagination && pagination.totalPages > 1 && (
+          <div className="bg-gray-50 px-4 py-3 border-t border-gray-200">
+            <Pagination
+              page={pagination.page}
+              totalPages={pagination.totalPages}
+              onPageChange={(page) => setQuery((prev) => ({ ...prev, page }))}
+              disabled={isFetching}
+            />
+          </div>
+        )}
+      </div>
+
+      {formCategory !== undefined && (
+        <CategoryFormModal
+          category={formCategory}
+          onClose={() => setFormCategory(undefined)}
+          onSaved={handleSaved}
+        />
+      )}
+
+      {/* Con productos asociados el backend responde 409: se guía al admin a moverlos antes */}
+      {deleteTarget && deleteTarget.productCount > 0 ? (
+        <Modal
+          open
+          title="No se puede eliminar la categoría"
+          onClose={closeDeleteDialog}
+          size="sm"
+          footer={
+            <>
+              <button onClick={closeDeleteDialog} className="btn-outline btn-sm">
+                Cerrar
+              </button>
+              <Link
+                to={`/admin/products?categoryId=${deleteTarget.id}`}
+                className="btn-primary btn-sm"
+              >
+                Ver productos
+              </Link>
+            </>
+          }
+        >
+          <p className="text-sm text-gray-600">
+            <strong>{deleteTarget.name}</strong> tiene {deleteTarget.productCount} producto
+            {deleteTarget.productCount !== 1 ? "s" : ""} asociado
+            {deleteTarget.productCount !== 1 ? "s" : ""}. Asígnalos a otra categoría o
+            elimínalos antes de borrarla.
+          </p>
+        </Modal>
+      ) : (
+        <ConfirmDialog
+          open={deleteTarget !== null}
+          title="Eliminar categoría"
+          confirmLabel="Eliminar"
+          onConfirm={handleDelete}
+          onClose={closeDeleteDialog}
+          loading={deleteCategory.isPending}
+          error={deleteError}
+        >
+          ¿Seguro que quieres eliminar la categoría <strong>{deleteTarget?.name}</strong>?
+        </ConfirmDialog>
+      )}
+    </div>
+  );
+}
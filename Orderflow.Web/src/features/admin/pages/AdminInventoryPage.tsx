@@ -0,0 +1,486 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Pagination } from "../../../app/ui/Pagination";
+import { getApiErrorMessage } from "../../../lib/api";
+import { formatDate } from "../../../lib/format";
+import { lowStockThresholdStorage } from "../../../lib/storage";
+import type { StockResponse } from "../../catalog/catalogApi";
+import {
+  useBulkUpdateStock,
+  useProducts,
+  useProductStocks,
+  useUpdateStock,
+  type StockOperation,
+} from "../../catalog/queries";
+import { LOW_STOCK_THRESHOLD } from "../../catalog/stock";
+import { StockOperationModal } from "../components/StockOperationModal";
+
+const PAGE_SIZE = 20;
+
+type Feedback = { type: "success" | "error"; message: string; details?: string[] };
+
+// El stock y el nombre se guardan al contar: el producto puede no estar en la página actual
+type CountEntry = { value: string; baseline: number; productName: string };
+
+function parseQuantity(value: string) {
+  const parsed = Number(value);
+  return value.trim() !== "" && Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+}
+
+export function AdminInventoryPage() {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [query, setQuery] = useState({ page: 1, search: "" });
+  // Solo resalta filas en esta consola; la tienda usa siempre LOW_STOCK_THRESHOLD
+  const [threshold, setThreshold] = useState(
+    () => lowStockThresholdStorage.get() ?? LOW_STOCK_THRESHOLD
+  );
+  const [onlyLowStock, setOnlyLowStock] = useState(false);
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+
+  // Ajuste individual
+  const [editing, setEditing] = useState<{ productId: number; value: string } | null>(null);
+  // Modo recuento: cantidades contadas por producto (se conservan al cambiar de página)
+  const [bulkMode, setBulkMode] = useState(false);
+  const [counts, setCounts] = useState<Record<number, CountEntry>>({});
+  const [operation, setOperation] = useState<{
+    stock: StockResponse;
+    type: StockOperation;
+  } | null>(null);
+
+  const { data, isPending, isFetching, error } = useProducts({
+    page: query.page,
+    pageSize: PAGE_SIZE,
+    search: query.search || undefined,
+  });
+  const products = data?.data ?? [];
+  const pagination = data?.pagination;
+  const stockQueries = useProductStocks(products.map((p) => p.id));
+
+  const updateStock = useUpdateStock();
+  const bulkUpdate = useBulkUpdateStock();
+
+  const rows = products
+    .map((product, i) => ({ product, stockQuery: stockQueries[i] }))
+    .filter(
+      ({ product, stockQuery }) =>
+        !onlyLowStock ||
+        (stockQuery?.data?.quantityAvailable ?? product.quantityAvailable) < threshold
+    );
+
+  // Solo cuentan como cambios las cantidades válidas que difieren del stock al contar
+  const pendingChanges = Object.entries(counts).flatMap(([id, entry]) => {
+    const quantity = parseQuantity(entry.value);
+    return quantity !== null && quantity !== entry.baseline
+      ? [{ productId: Number(id), quantity }]
+      : [];
+  });
+  const invalidCounts = Object.values(counts).filter(
+    ({ value }) => value.trim() !== "" && parseQuantity(value) === null
+  ).length;
+
+  const handleThresholdChange = (value: string) => {
+    const parsed = Number(value);
+    if (Number.isInteger(parsed) && parsed > 0) {
+      setThreshold(parsed);
+      lowStockThresholdStorage.set(parsed);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setQuery({ page: 1, search: searchTerm.trim() });
+  };
+
+  const handleSaveInline = () => {
+    if (!editing) return;
+    const quantity = parseQuantity(editing.value);
+    if (quantity === null) {
+      setFeedback({ type: "error", message: "La cantidad debe ser un entero mayor o igual a 0" });
+      return;
+    }
+
+    updateStock.mutate(
+      { productId: editing.productId, quantity },
+      {
+        onSuccess: (stock) => {
+          setEditing(null);
+          setFeedback({
+            type: "success",
+            message: `Stock de "${stock.productName}" actualizado a ${stock.quantityAvailable}`,
+          });
+        },
+        onError: (err) =>
+          setFeedback({
+            type: "error",
+            message: getApiErrorMessage(err, "No se pudo actualizar el stock"),
+          }),
+      }
+    );
+  };
+
+  const toggleBulkMode = () => {
+    setBulkMode((prev) => !prev);
+    setCounts({});
+    setEditing(null);
+  };
+
+  const handleApplyBulk = () => {
+    if (pendingChanges.length === 0) return;
+    setFeedback(null);
+
+    const names = new Map(Object.entries(counts).map(([id, e]) => [Number(id), e.productName]));
+    bulkUpdate.mutate(pendingChanges, {
+      onSuccess: (results) => {
+        const failed = results.filter((r) => !r.ok);
+        const succeeded = results.length - failed.length;
+
+        // Se conservan solo las cantidades que fallaron, para poder reintentarlas
+        setCounts((prev) =>
+          Object.fromEntries(
+            Object.entries(prev).filter(([id]) => failed.some((f) => f.productId === Number(id)))
+          )
+        );
+        setFeedback({
+          type: failed.length === 0 ? "success" : "error",
+          message:
+            failed.length === 0
+              ? `Recuento aplicado: ${succeeded} producto${succeeded !== 1 ? "s" : ""} actualizado${succeeded !== 1 ? "s" : ""}`
+              : `${succeeded} actualizado${succeeded !== 1 ? "s" : ""}, ${failed.length} con error`,
+          details: failed.map(
+            (f) =>
+              `${names.get(f.productId) ?? `Producto #${f.productId}`}: ${getApiErrorMessage(f.error, "error desconocido")}`
+          ),
+        });
+      },
+    });
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto mt-8">
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Panel de Administración - Inventario</h1>
+          <p className="text-gray-600 mt-2">
+            Stock disponible, reservado y total de cada producto
+          </p>
+        </div>
+        <button
+          onClick={toggleBulkMode}
+          disabled={bulkUpdate.isPending}
+          className={bulkMode ? "btn-outline btn-md" : "btn-primary btn-md"}
+        >
+          {bulkMode ? "Salir del modo recuento" : "Modo recuento"}
+        </button>
+      </div>
+
+      {feedback && (
+        <div
+          className={`px-4 py-3 rounded mb-4 border ${
+            feedback.type === "success"
+              ? "bg-green-50 border-green-200 text-green-700"
+              : "bg-red-50 border-red-200 text-red-700"
+          }`}
+        >
+          <p>{feedback.message}</p>
+          {feedback.details && feedback.details.length > 0 && (
+            <ul className="list-disc list-inside text-sm mt-2">
+              {feedback.details.map((detail) => (
+                <li key={detail}>{detail}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+          {getApiErrorMessage(error, "Error al cargar el inventario")}
+        </div>
+      )}
+
+      {bulkMode && (
+        <div className="bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded mb-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <p className="text-sm">
+            Introduce las cantidades contadas en el almacén. Se ajustará el stock disponible de
+            los productos que cambien.
+            {invalidCounts > 0 && (
+              <span className="block text-red-700 mt-1">
+                {invalidCounts} cantidad{invalidCounts !== 1 ? "es" : ""} no válida
+                {invalidCounts !== 1 ? "s" : ""} (deben ser enteros ≥ 0).
+              </span>
+            )}
+          </p>
+          <button
+            onClick={handleApplyBulk}
+            disabled={pendingChanges.length === 0 || invalidCounts > 0 || bulkUpdate.isPending}
+            className="btn-primary btn-sm whitespace-nowrap"
+          >
+            {bulkUpdate.isPending
+              ? "Aplicando..."
+              : `Aplicar ${pendingChanges.length} cambio${pendingChanges.length !== 1 ? "s" : ""}`}
+          </button>
+        </div>
+      )}
+
+      <div className="bg-white shadow-md rounded-lg overflow-hidden">
+        <div className="p-4 border-b border-gray-200 flex flex-col lg:flex-row lg:items-center gap-4">
+          <form onSubmit={handleSearch} className="flex-1 flex gap-2">
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Buscar productos..."
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-md transition"
+            >
+              Buscar
+            </button>
+          </form>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            Stock bajo por debajo de
+            <input
+              type="number"
+              min={1}
+              defaultValue={threshold}
+              onChange={(e) => handleThresholdChange(e.target.value)}
+              className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={onlyLowStock}
+              onChange={(e) => setOnlyLowStock(e.target.checked)}
+            />
+            Solo stock bajo
+          </label>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Producto
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Disponible
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Reservado
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Total
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Actualizado
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {bulkMode ? "Recuento" : "Acciones"}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isPending ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                    Cargando inventario...
+                  </td>
+                </tr>
+              ) : rows.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                    {onlyLowStock
+                      ? "Ningún producto de esta página tiene stock bajo"
+                      : "No se encontraron productos"}
+                  </td>
+                </tr>
+              ) : (
+                rows.map(({ product, stockQuery }) => {
+                  const stock = stockQuery?.data;
+                  const available = stock?.quantityAvailable ?? product.quantityAvailable;
+                  const rowClass =
+                    available === 0 ? "bg-red-50" : available < threshold ? "bg-yellow-50" : "";
+                  const isEditing = editing?.productId === product.id;
+                  const count = counts[product.id]?.value ?? "";
+                  const countValue = parseQuantity(count);
+                  const diff = countValue !== null && stock ? countValue - stock.quantityAvailable : 0;
+
+                  return (
+                    <tr key={product.id} className={rowClass}>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <Link
+                          to={`/products/${product.id}`}
+                          className="text-sm font-medium text-gray-900 hover:text-primary-600"
+                        >
+                          {product.name}
+                        </Link>
+                        {!product.isActive && (
+                          <span className="ml-2 badge bg-gray-100 text-gray-600">Inactivo</span>
+                        )}
+                      </td>
+                      {stockQuery?.isError ? (
+                        <td colSpan={4} className="px-6 py-4 text-sm text-red-600">
+                          {getApiErrorMessage(stockQuery.error, "No se pudo cargar el stock")}
+                        </td>
+                      ) : !stock ? (
+                        <td colSpan={4} className="px-6 py-4 text-sm text-gray-400">
+                          Cargando stock...
+                        </td>
+                      ) : (
+                        <>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                            {isEditing ? (
+                              <input
+                                type="number"
+                                min={0}
+                                value={editing.value}
+                                onChange={(e) =>
+                                  setEditing({ productId: product.id, value: e.target.value })
+                                }
+                                onKeyDown={(e) => {
+                                  if (e.key === "Enter") handleSaveInline();
+                                  if (e.key === "Escape") setEditing(null);
+                                }}
+                                className="w-24 px-2 py-1 border border-gray-300 rounded-md text-right"
+                                autoFocus
+                              />
+                            ) : (
+                              <span
+                                className={`font-semibold ${
+                                  available < threshold ? "text-red-700" : "text-gray-900"
+                                }`}
+                              >
+                                {stock.quantityAvailable}
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-700">
+                            {stock.quantityReserved}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-700">
+                            {stock.quantityTotal}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {formatDate(stock.updatedAt)}
+                          </td>
+                        </>
+                      )}
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        {!stock ? null : bulkMode ? (
+                          <div className="flex items-center justify-end gap-2">
+                            {diff !== 0 && (
+                              <span
+                                className={`text-xs font-semibold ${
+                                  diff > 0 ? "text-green-700" : "text-red-700"
+                                }`}
+                              >
+                                {diff > 0 ? `+${diff}` : diff}
+                              </span>
+                            )}
+                            <input
+                              type="number"
+                              min={0}
+                              value={count}
+                              placeholder={stock.quantityAvailable.toString()}
+                              onChange={(e) =>
+                                setCounts((prev) => ({
+                                  ...prev,
+                                  [product.id]: {
+                                    value: e.target.value,
+                                    baseline: stock.quantityAvailable,
+                                    productName: product.name,
+                                  },
+                                }))
+                              }
+                              disabled={bulkUpdate.isPending}
+                              className={`w-24 px-2 py-1 border rounded-md text-right ${
+                                count && countValue === null ? "border-red-400" : "border-gray-300"
+                              }`}
+                              aria-label={`Recuento de ${product.name}`}
+                            />
+                          </div>
+                        ) : isEditing ? (
+                          <>
+                            <button
+                              onClick={handleSaveInline}
+                              disabled={updateStock.isPending}
+                              className="text-green-600 hover:text-green-900 mr-3"
+                            >
+                              {updateStock.isPending ? "Guardando..." : "Guardar"}
+                            </button>
+                            <button
+                              onClick={() => setEditing(null)}
+                              disabled={updateStock.isPending}
+                              className="text-gray-600 hover:text-gray-900"
+                            >
+                              Cancelar
+                            </button>
+                          </>
+                        ) : (
+                          <>
+                            <button
+                              onClick={() =>
+                                setEditing({
+                                  productId: product.id,
+                                  value: stock.quantityAvailable.toString(),
+                                })
+                              }
+                              className="text-blue-600 hover:text-blue-900 mr-3"
+                            >
+                              Ajustar
+                            </button>
+                            <button
+                              onClick={() => setOperation({ stock, type: "reserve" })}
+                              disabled={stock.quantityAvailable === 0}
+                              className="text-yellow-700 hover:text-yellow-900 mr-3 disabled:opacity-40"
+                            >
+                              Reservar
+                            </button>
+                            <button
+                              onClick={() => setOperation({ stock, type: "release" })}
+                              disabled={stock.quantityReserved === 0}
+                              className="text-purple-600 hover:text-purple-900 disabled:opacity-40"
+                            >
+                              Liberar
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {pagination && pagination.totalPages > 1 && (
+          <div className="bg-gray-50 px-4 py-3 border-t border-gray-200">
+            <Pagination
+              page={pagination.page}
+              totalPages={pagination.totalPages}
+              onPageChange={(page) => setQuery((prev) => ({ ...prev, page }))}
+              disabled={isFetching}
+            />
+          </div>
+        )}
+      </div>
+
+      {operation && (
+        <StockOperationModal
+          stock={operation.stock}
+          operation={operation.type}
+          onClose={() => setOperation(null)}
+          onDone={(message) => {
+            setOperation(null);
+            setFeedback({ type: "success", message });
+          }}
+        />
+      )}
+    </div>
+  );
+}
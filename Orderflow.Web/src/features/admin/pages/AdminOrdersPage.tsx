@@ -0,0 +1,203 @@
+import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Pagination } from "../../../app/ui/Pagination";
+import { getApiErrorMessage } from "../../../lib/api";
+import { formatCurrency, formatDate } from "../../../lib/format";
+import { OrderStatusBadge } from "../../orders/components/OrderStatusBadge";
+import type { OrderStatus } from "../../orders/ordersApi";
+import { ORDER_STATUS_LABELS } from "../../orders/orderStatus";
+import { CustomerFilter } from "../components/CustomerFilter";
+import { ExportCsvButton } from "../components/ExportCsvButton";
+import { OrderDetailDrawer } from "../components/OrderDetailDrawer";
+import { exportOrdersCsv } from "../exports";
+import { useAdminOrders } from "../queries";
+
+const PAGE_SIZE = 20;
+
+const STATUS_OPTIONS = Object.keys(ORDER_STATUS_LABELS) as OrderStatus[];
+
+function parseStatus(value: string | null) {
+  return STATUS_OPTIONS.find((s) => s === value);
+}
+
+export function AdminOrdersPage() {
+  // Permite llegar filtrado desde otras pantallas (p. ej. usuarios)
+  const [searchParams] = useSearchParams();
+
+  const [query, setQuery] = useState({
+    page: 1,
+    status: parseStatus(searchParams.get("status")),
+    userId: searchParams.get("userId") || undefined,
+  });
+  const [selectedOrderId, setSelectedOrderId] = useState<number | null>(null);
+  const [feedback, setFeedback] = useState<string | null>(null);
+
+  const { data, isPending, isFetching, error } = useAdminOrders({
+    page: query.page,
+    pageSize: PAGE_SIZE,
+    status: query.status,
+    userId: query.userId,
+  });
+  const orders = data?.data ?? [];
+  const pagination = data?.pagination;
+
+  const updateQuery = (changes: Partial<typeof query>) => {
+    setQuery((prev) => ({ ...prev, page: 1, ...changes }));
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto mt-8">
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Panel de Administración - Pedidos</h1>
+          <p className="text-gray-600 mt-2">
+            {pagination
+              ? `${pagination.totalCount} pedido${pagination.totalCount !== 1 ? "s" : ""}`
+              : "Consulta y gestiona los pedidos de todos los clientes"}
+          </p>
+        </div>
+        {/* Exporta todos los pedidos que cumplen los filtros actuales */}
+        <ExportCsvButton
+          filename="pedidos"
+          exportChunks={(onProgress) =>
+            exportOrdersCsv({ status: query.status, userId: query.userId }, onProgress)
+          }
+        />
+      </div>
+
+      {feedback && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded mb-4">
+          {feedback}
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+          {getApiErrorMessage(error, "Error al cargar los pedidos")}
+        </div>
+      )}
+
+      <div className="bg-white shadow-md rounded-lg overflow-hidden">
+        <div className="p-4 border-b border-gray-200 flex flex-col md:flex-row gap-4">
+          <select
+            value={query.status ?? ""}
+            onChange={(e) => updateQuery({ status: parseStatus(e.target.value) })}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Todos los estados</option>
+            {STATUS_OPTIONS.map((status) => (
+              <option key={status} value={status}>
+                {ORDER_STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+          <div className="flex-1">
+            <CustomerFilter
+              userId={query.userId}
+              onChange={(userId) => updateQuery({ userId })}
+            />
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Pedido
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Fecha
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Cliente
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Estado
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Productos
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Total
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isPending ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                    Cargando pedidos...
+                  </td>
+                </tr>
+              ) : orders.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                    No se encontraron pedidos
+                  </td>
+                </tr>
+              ) : (
+                orders.map((order) => (
+                  <tr
+                    key={order.id}
+                    onClick={() => setSelectedOrderId(order.id)}
+                    className="hover:bg-gray-50 cursor-pointer"
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      #{order.id}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatDate(order.createdAt)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          updateQuery({ userId: order.userId });
+                        }}
+                        title={`Ver pedidos de ${order.userId}`}
+                        className="font-mono text-blue-600 hover:text-blue-900"
+                      >
+                        {order.userId.slice(0, 8)}…
+                      </button>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <OrderStatusBadge status={order.status} />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-500">
+                      {order.itemCount}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-semibold">
+                      {formatCurrency(order.totalAmount)}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {pagination && pagination.totalPages > 1 && (
+          <div className="bg-gray-50 px-4 py-3 border-t border-gray-200">
+            <Pagination
+              page={pagination.page}
+              totalPages={pagination.totalPages}
+              onPageChange={(page) => setQuery((prev) => ({ ...prev, page }))}
+              disabled={isFetching}
+            />
+          </div>
+        )}
+      </div>
+
+      <OrderDetailDrawer
+        orderId={selectedOrderId}
+        onClose={() => setSelectedOrderId(null)}
+        onStatusChanged={setFeedback}
+        onFilterByCustomer={(userId) => {
+          setSelectedOrderId(null);
+          updateQuery({ userId });
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+import { useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { ConfirmDialog } from "../../../app/ui/ConfirmDialog";
+import { Pagination } from "../../../app/ui/Pagination";
+import { getApiErrorMessage } from "../../../lib/api";
+import { formatCurrency } from "../../../lib/format";
+import type { ProductListResponse } from "../../catalog/catalogApi";
+import { StockBadge } from "../../catalog/components/StockBadge";
+import {
+  useAllCategories,
+  useDeleteProduct,
+  useProducts,
+  useSetProductActive,
+} from "../../catalog/queries";
+import { ProductFormModal } from "../components/ProductFormModal";
+import { ProductImportModal } from "../components/ProductImportModal";
+
+const PAGE_SIZE = 20;
+
+type StatusFilter = "all" | "active" | "inactive";
+type Feedback = { type: "success" | "error"; message: string };
+
+export function AdminProductsPage() {
+  // Permite llegar filtrado desde otras pantallas (p. ej. categorías)
+  const [searchParams] = useSearchParams();
+  const initialCategoryId = Number(searchParams.get("categoryId")) || undefined;
+
+  const [searchTerm, setSearchTerm] = useState("");
+  const [query, setQuery] = useState({
+    page: 1,
+    search: "",
+    status: "all" as StatusFilter,
+    categoryId: initialCategoryId,
+  });
+
+  // undefined = cerrado, null = nuevo producto
+  const [formProductId, setFormProductId] = useState<number | null | undefined>(undefined);
+  const [deleteTarget, setDeleteTarget] = useState<ProductListResponse | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+
+  // Sin isActive el backend incluye también los productos inactivos
+  const { data, isPending, isFetching, error } = useProducts({
+    page: query.page,
+    pageSize: PAGE_SIZE,
+    search: query.search || undefined,
+    categoryId: query.categoryId,
+    isActive: query.status === "all" ? undefined : query.status === "active",
+  });
+  const products = data?.data ?? [];
+  const pagination = data?.pagination;
+  const { data: categories = [] } = useAllCategories();
+
+  const setActive = useSetProductActive();
+  const deleteProduct = useDeleteProduct();
+
+  const updateQuery = (changes: Partial<typeof query>) => {
+    setQuery((prev) => ({ ...prev, page: 1, ...changes }));
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateQuery({ search: searchTerm.trim() });
+  };
+
+  const handleToggleActive = (product: ProductListResponse) => {
+    setFeedback(null);
+    setActive.mutate(
+      { id: product.id, isActive: !product.isActive },
+      {
+        onSuccess: (updated) =>
+          setFeedback({
+            type: "success",
+            message: `"${updated.name}" ${updated.isActive ? "activado" : "desactivado"}`,
+          }),
+        onError: (err) =>
+          setFeedback({
+            type: "error",
+            message: getApiErrorMessage(err, "No se pudo cambiar el estado del producto"),
+          }),
+      }
+    );
+  };
+
+  const handleDelete = () => {
+    if (!deleteTarget) return;
+    deleteProduct.mutate(deleteTarget.id, {
+      onSuccess: () => {
+        setFeedback({ type: "success", message: `Producto "${deleteTarget.name}" eliminado` });
+        setDeleteTarget(null);
+      },
+    });
+  };
+
+  const closeDeleteDialog = () => {
+    setDeleteTarget(null);
+    deleteProduct.reset();
+  };
+
+  const handleSaved = (message: string) => {
+    setFormProductId(undefined);
+    setFeedback({ type: "success", message });
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto mt-8">
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Panel de Administración - Productos</h1>
+          <p className="text-gray-600 mt-2">Gestiona el catálogo, precios y disponibilidad</p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => setImporting(true)} className="btn-outline btn-md">
+            Importar CSV
+          </button>
+          <button
+            onClick={() => setFormProductId(null)}
+            className="bg-green-600 hover:bg-green-700 text-white font-medium py-2 px-4 rounded-md transition"
+          >
+            + Nuevo Producto
+          </button>
+        </div>
+      </div>
+
+      {feedback && (
+        <div
+          className={`px-4 py-3 rounded mb-4 border ${
+            feedback.type === "success"
+              ? "bg-green-50 border-green-200 text-green-700"
+              : "bg-red-50 border-red-200 text-red-700"
+          }`}
+        >
+          {feedback.message}
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+          {getApiErrorMessage(error, "Error al cargar los productos")}
+        </div>
+      )}
+
+      <div className="bg-white shadow-md rounded-lg overflow-hidden">
+        <div className="p-4 border-b border-gray-200 flex flex-col lg:flex-row gap-4">
+          <form onSubmit={handleSearch} className="flex-1 flex gap-2">
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Buscar por nombre o descripción..."
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-md transition"
+            >
+              Buscar
+            </button>
+          </form>
+          <select
+            value={query.categoryId ?? ""}
+            onChange={(e) =>
+              updateQuery({ categoryId: e.target.value ? Number(e.target.value) : undefined })
+            }
+            className="px-3 py-2 border border-gray-300 rounded-md"
+            aria-label="Filtrar por categoría"
+          >
+            <option value="">Todas las categorías</option>
+            {categories.map((category) => (
+              <option key={category.id} value={category.id}>
+                {category.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={query.status}
+            onChange={(e) => updateQuery({ status: e.target.value as StatusFilter })}
+            className="px-3 py-2 border border-gray-300 rounded-md"
+            aria-label="Filtrar por estado"
+          >
+            <option value="all">Todos los estados</option>
+            <option value="active">Activos</option>
+            <option value="inactive">Inactivos</option>
+          </select>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Producto
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Categoría
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Precio
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Stock
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Estado
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Acciones
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isPending ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                    Cargando productos...
+                  </td>
+                </tr>
+              ) : products.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                    No se encontraron productos
+                  </td>
+                </tr>
+              ) : (
+                products.map((product) => {
+                  const toggling = setActive.isPending && setActive.variables?.id === product.id;
+                  return (
+                    <tr key={product.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <Link
+                          to={`/products/${product.id}`}
+                          className="text-sm font-medium text-gray-900 hover:text-primary-600"
+                        >
+                          {product.name}
+                        </Link>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {product.categoryName}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {formatCurrency(product.price)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <StockBadge stock={product.quantityAvailable} />
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <button
+                          onClick={() => handleToggleActive(product)}
+                          disabled={toggling}
+                          role="switch"
+                          aria-checked={product.isActive}
+                          aria-label={`${product.isActive ? "Desactivar" : "Activar"} ${product.name}`}
+                          className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors disabled:opacity-50 ${
+                            product.isActive ? "bg-green-500" : "bg-gray-300"
+                          }`}
+                        >
+                          <span
+                            className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                              product.isActive ? "translate-x-6" : "translate-x-1"
+                            }`}
+                          />
+                        </button>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        <button
+                          onClick={() => setFormProductId(product.id)}
+                          className="text-blue-600 hover:text-blue-900 mr-3"
+                        >
+                          Editar
+                        </button>
+                        <button
+                          onClick={() => setDeleteTarget(product)}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          Eliminar
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {pagination && pagination.totalPages > 1 && (
+          <div className="bg-gray-50 px-4 py-3 border-t border-gray-200">
+            <Pagination
+              page={pagination.page}
+              totalPages={pagination.totalPages}
+              onPageChange={(page) => setQuery((prev) => ({ ...prev, page }))}
+              disabled={isFetching}
+            />
+          </div>
+        )}
+      </div>
+
+      {formProductId !== undefined && (
+        <ProductFormModal
+          productId={formProductId}
+          onClose={() => setFormProductId(undefined)}
+          onSaved={handleSaved}
+        />
+      )}
+
+      {importing && (
+        <ProductImportModal
+          onClose={() => setImporting(false)}
+          onImported={(message) => {
+            setImporting(false);
+            setFeedback({ type: "success", message });
+          }}
+        />
+      )}
+
+      <ConfirmDialog
+        open={deleteTarget !== null}
+        title="Eliminar producto"
+        confirmLabel="Eliminar"
+        onConfirm={handleDelete}
+        onClose={closeDeleteDialog}
+        loading={deleteProduct.isPending}
+        error={
+          deleteProduct.error
+            ? getApiErrorMessage(deleteProduct.error, "No se pudo eliminar el producto")
+            : undefined
+        }
+      >
+        ¿Seguro que quieres eliminar <strong>{deleteTarget?.name}</strong>? Se borrará también su
+        stock. Si solo quieres ocultarlo del catálogo, desactívalo en su lugar.
+      </ConfirmDialog>
+    </div>
+  );
+}
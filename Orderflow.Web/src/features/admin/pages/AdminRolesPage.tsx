@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { ConfirmDialog } from "../../../app/ui/ConfirmDialog";
+import { Modal } from "../../../app/ui/Modal";
+import { getApiErrorMessage } from "../../../lib/api";
+import type { RoleResponse } from "../adminApi";
+import { RoleFormModal } from "../components/RoleFormModal";
+import { RoleUsersDrawer } from "../components/RoleUsersDrawer";
+import { useAdminRoles, useDeleteRole } from "../queries";
+import { isBuiltInRole } from "../roles";
+
+type Feedback = { type: "success" | "error"; message: string };
+
+const BUILT_IN_HINT = "Rol predefinido del sistema: no se puede renombrar ni eliminar";
+
+export function AdminRolesPage() {
+  // undefined = cerrado, null = nuevo rol
+  const [formRole, setFormRole] = useState<RoleResponse | null | undefined>(undefined);
+  const [usersRole, setUsersRole] = useState<RoleResponse | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<RoleResponse | null>(null);
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+
+  const { data: roles = [], isPending, error } = useAdminRoles();
+  const deleteRole = useDeleteRole();
+
+  const handleSaved = (message: string) => {
+    setFormRole(undefined);
+    setFeedback({ type: "success", message });
+  };
+
+  const handleDelete = () => {
+    if (!deleteTarget) return;
+    deleteRole.mutate(deleteTarget.roleId, {
+      onSuccess: () => {
+        setFeedback({ type: "success", message: `Rol "${deleteTarget.roleName}" eliminado` });
+        setDeleteTarget(null);
+      },
+    });
+  };
+
+  const closeDeleteDialog = () => {
+    setDeleteTarget(null);
+    deleteRole.reset();
+  };
+
+  const sortedRoles = [...roles].sort(
+    (a, b) =>
+      Number(isBuiltInRole(b.roleName)) - Number(isBuiltInRole(a.roleName)) ||
+      a.roleName.localeCompare(b.roleName)
+  );
+
+  return (
+    <div className="max-w-7xl mx-auto mt-8">
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Panel de Administración - Roles</h1>
+          <p className="text-gray-600 mt-2">
+            Define los roles que se pueden asignar a los usuarios
+          </p>
+        </div>
+        <button
+          onClick={() => setFormRole(null)}
+          className="bg-green-600 hover:bg-green-700 text-white font-medium py-2 px-4 rounded-md transition"
+        >
+          + Nuevo Rol
+        </button>
+      </div>
+
+      {feedback && (
+        <div
+          className={`px-4 py-3 rounded mb-4 border ${
+            feedback.type === "success"
+              ? "bg-green-50 border-green-200 text-green-700"
+              : "bg-red-50 border-red-200 text-red-700"
+          }`}
+        >
+          {feedback.message}
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+          {getApiErrorMessage(error, "Error al cargar los roles")}
+        </div>
+      )}
+
+      <div className="bg-white shadow-md rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Rol
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Usuarios
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Acciones
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {isPending ? (
+                <tr>
+                  <td colSpan={3} className="px-6 py-8 text-center text-gray-500">
+                    Cargando roles...
+                  </td>
+                </tr>
+              ) : sortedRoles.length === 0 ? (
+                <tr>
+                  <td colSpan={3} className="px-6 py-8 text-center text-gray-500">
+                    No hay roles definidos
+                  </td>
+                </tr>
+              ) : (
+                sortedRoles.map((role) => {
+                  const builtIn = isBuiltInRole(role.roleName);
+                  return (
+                    <tr key={role.roleId} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className="text-sm font-medium text-gray-900">{role.roleName}</span>
+                        {builtIn && (
+                          <span
+                            className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-600"
+                            title={BUILT_IN_HINT}
+                          >
+                            Sistema
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                        <button
+                          onClick={() => setUsersRole(role)}
+                          className="text-blue-600 hover:text-blue-900"
+                        >
+                          {role.userCount}
+                        </button>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        <button
+                          onClick={() => setUsersRole(role)}
+                          className="text-blue-600 hover:text-blue-900 mr-3"
+                        >
+                          Ver usuarios
+                        </button>
+                        <button
+                          onClick={() => setFormRole(role)}
+                          disabled={builtIn}
+                          title={builtIn ? BUILT_IN_HINT : undefined}
+                          className="text-blue-600 hover:text-blue-900 mr-3 disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                          Renombrar
+                        </button>
+                        <button
+                          onClick={() => setDeleteTarget(role)}
+                          disabled={builtIn}
+                          title={builtIn ? BUILT_IN_HINT : undefined}
+                          className="text-red-600 hover:text-red-900 disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                          Eliminar
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {formRole !== undefined && (
+        <RoleFormModal
+          role={formRole}
+          onClose={() => setFormRole(undefined)}
+          onSaved={handleSaved}
+        />
+      )}
+
+      <RoleUsersDrawer role={usersRole} onClose={() => setUsersRole(null)} />
+
+      {/* RoleService rechaza borrar roles con usuarios asignados */}
+      {deleteTarget && deleteTarget.userCount > 0 ? (
+        <Modal
+          open
+          title="No se puede eliminar el rol"
+          onClose={closeDeleteDialog}
+          size="sm"
+          footer={
+            <>
+              <button onClick={closeDeleteDialog} className="btn-outline btn-sm">
+                Cerrar
+              </button>
+              <button
+                onClick={() => {
+                  setUsersRole(deleteTarget);
+                  closeDeleteDialog();
+                }}
+                className="btn-primary btn-sm"
+              >
+                Ver usuarios
+              </button>
+            </>
+          }
+        >
+          <p className="text-sm text-gray-600">
+            <strong>{deleteTarget.roleName}</strong> está asignado a {deleteTarget.userCount}{" "}
+            usuario{deleteTarget.userCount !== 1 ? "s" : ""}. Quítaselo antes de eliminarlo.
+          </p>
+        </Modal>
+      ) : (
+        <ConfirmDialog
+          open={deleteTarget !== null}
+          title="Eliminar rol"
+          confirmLabel="Eliminar"
+          onConfirm={handleDelete}
+          onClose={closeDeleteDialog}
+          loading={deleteRole.isPending}
+          error={
+            deleteRole.error
+              ? getApiErrorMessage(deleteRole.error, "No se pudo eliminar el rol")
+              : undefined
+          }
+        >
+          ¿Seguro que quieres eliminar el rol <strong>{deleteTarget?.roleName}</strong>?
+        </ConfirmDialog>
+      )}
+    </div>
+  );
+}
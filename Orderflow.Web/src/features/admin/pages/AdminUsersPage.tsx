@@ -1,92 +1,196 @@
 import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
-import { api } from "../../../lib/api";
-import { tokenStorage } from "../../../lib/storage";
-
-interface User {
-  userId: string;
-  email: string;
-  userName: string;
-  emailConfirmed: boolean;
-  lockoutEnd: string | null;
-  roles: string[];
+import { useSearchParams } from "react-router-dom";
+import { ConfirmDialog } from "../../../app/ui/ConfirmDialog";
+import { Pagination } from "../../../app/ui/Pagination";
+import { getApiErrorMessage } from "../../../lib/api";
+import type { UserResponse } from "../../auth/identityApi";
+import { useAuth } from "../../auth/useAuth";
+import {
+  BulkUserActionDialog,
+  type BulkUserActionType,
+} from "../components/BulkUserActionDialog";
+import { CreateUserModal } from "../components/CreateUserModal";
+import { EditUserModal } from "../components/EditUserModal";
+import { ExportCsvButton } from "../components/ExportCsvButton";
+import { LockUserDialog } from "../components/LockUserDialog";
+import { exportUsersCsv } from "../exports";
+import { formatLockoutRemaining, isUserLocked } from "../lockout";
+import type { UserQueryParameters } from "../adminApi";
+import { useAdminRoles, useAdminUsers, useUnlockUser } from "../queries";
+
+const PAGE_SIZE_OPTIONS = [10, 20, 50, 100];
+const DEFAULT_PAGE_SIZE = PAGE_SIZE_OPTIONS[0];
+
+type SortField = NonNullable<UserQueryParameters["sortBy"]>;
+
+function parsePositiveInt(value: string | null) {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
 }
 
-interface PaginatedResponse {
-  data: User[];
-  pagination: {
-    page: number;
-    pageSize: number;
-    totalCount: number;
-    totalPages: number;
-  };
+function SortableHeader({
+  field,
+  label,
+  sortBy,
+  sortDescending,
+  onSort,
+}: {
+  field: SortField;
+  label: string;
+  sortBy: SortField;
+  sortDescending: boolean;
+  onSort: (field: SortField) => void;
+}) {
+  const active = sortBy === field;
+  return (
+    <th
+      aria-sort={active ? (sortDescending ? "descending" : "ascending") : undefined}
+      className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+    >
+      <button
+        onClick={() => onSort(field)}
+        className={`uppercase tracking-wider inline-flex items-center gap-1 hover:text-gray-700 ${
+          active ? "text-gray-900" : ""
+        }`}
+      >
+        {label}
+        <span aria-hidden="true">{active ? (sortDescending ? "▼" : "▲") : "↕"}</span>
+      </button>
+    </th>
+  );
 }
 
 export function AdminUsersPage() {
-  const navigate = useNavigate();
-  const [users, setUsers] = useState<User[]>([]);
-  const [pagination, setPagination] = useState({
-    page: 1,
-    pageSize: 10,
+  // El estado de la tabla vive en la URL para poder recargar y compartir la vista
+  const [searchParams, setSearchParams] = useSearchParams();
+  const search = searchParams.get("q") ?? "";
+  const role = searchParams.get("role") ?? "";
+  const sortBy: SortField = searchParams.get("sort") === "userName" ? "userName" : "email";
+  const sortDescending = searchParams.get("desc") === "1";
+  const page = parsePositiveInt(searchParams.get("page")) ?? 1;
+  const requestedPageSize = parsePositiveInt(searchParams.get("pageSize"));
+  const pageSize =
+    requestedPageSize && PAGE_SIZE_OPTIONS.includes(requestedPageSize)
+      ? requestedPageSize
+      : DEFAULT_PAGE_SIZE;
+
+  // El input se resincroniza si la URL cambia por fuera (atrás/adelante)
+  const [searchTerm, setSearchTerm] = useState(search);
+  const [syncedSearch, setSyncedSearch] = useState(search);
+  if (search !== syncedSearch) {
+    setSyncedSearch(search);
+    setSearchTerm(search);
+  }
+  const [pageInput, setPageInput] = useState("");
+
+  // La selección se limita a la página visible y se vacía al cambiar de vista
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [selectionView, setSelectionView] = useState(searchParams.toString());
+  if (searchParams.toString() !== selectionView) {
+    setSelectionView(searchParams.toString());
+    setSelectedIds(new Set());
+  }
+  const [bulkAction, setBulkAction] = useState<BulkUserActionType | null>(null);
+
+  const [creatingUser, setCreatingUser] = useState(false);
+  const [editingUserId, setEditingUserId] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState<string | null>(null);
+  const [lockTarget, setLockTarget] = useState<UserResponse | null>(null);
+  const [unlockTarget, setUnlockTarget] = useState<UserResponse | null>(null);
+  const { session } = useAuth();
+  const unlockUser = useUnlockUser();
+
+  // Reloj para el tiempo restante de bloqueo
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const { data, isPending, isFetching: loading, error } = useAdminUsers({
+    page,
+    pageSize,
+    search: search || undefined,
+    role: role || undefined,
+    sortBy,
+    sortDescending,
+  });
+  const users = data?.data ?? [];
+  const pagination = data?.pagination ?? {
+    page,
+    pageSize,
     totalCount: 0,
     totalPages: 0,
-  });
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState("");
-  const [searchTerm, setSearchTerm] = useState("");
+  };
+  const { data: roles = [] } = useAdminRoles();
 
-  useEffect(() => {
-    const token = tokenStorage.get();
-    if (!token) {
-      navigate("/login");
-      return;
-    }
+  const selectedUsers = users.filter((u) => selectedIds.has(u.userId));
+  const allSelected = users.length > 0 && selectedUsers.length === users.length;
 
-    // Configurar el header de autorización
-    api.defaults.headers.common["Authorization"] = `Bearer ${token}`;
-
-    loadUsers();
-  }, [navigate]);
-
-  const loadUsers = (page = 1, search = searchTerm) => {
-    setLoading(true);
-    api
-      .get("/api/v1/admin/users", {
-        params: {
-          page,
-          pageSize: 10,
-          search: search || undefined,
-        },
-      })
-      .then((response: { data: PaginatedResponse }) => {
-        setUsers(response.data.data);
-        setPagination(response.data.pagination);
-        setLoading(false);
-      })
-      .catch((err) => {
-        if (err.response?.status === 401 || err.response?.status === 403) {
-          tokenStorage.clear();
-          navigate("/login");
-        } else {
-          setError(
-            err.response?.data?.message || "Error al cargar los usuarios"
-          );
-          setLoading(false);
-        }
-      });
+  const toggleSelected = (userId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(userId)) next.delete(userId);
+      else next.add(userId);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(users.map((u) => u.userId)));
+  };
+
+  // Los valores por defecto no se escriben en la URL
+  const updateParams = (changes: Record<string, string | undefined>) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      for (const [key, value] of Object.entries(changes)) {
+        if (value) next.set(key, value);
+        else next.delete(key);
+      }
+      return next;
+    });
+  };
+
+  const goToPage = (newPage: number) => {
+    updateParams({ page: newPage > 1 ? newPage.toString() : undefined });
   };
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    loadUsers(1, searchTerm);
+    updateParams({ q: searchTerm.trim() || undefined, page: undefined });
+  };
+
+  const handleSort = (field: SortField) => {
+    // Misma columna: invierte el orden; columna nueva: ascendente
+    const descending = field === sortBy ? !sortDescending : false;
+    updateParams({
+      sort: field === "email" ? undefined : field,
+      desc: descending ? "1" : undefined,
+      page: undefined,
+    });
+  };
+
+  const handlePageJump = (e: React.FormEvent) => {
+    e.preventDefault();
+    const target = parsePositiveInt(pageInput);
+    if (target && target <= pagination.totalPages) {
+      goToPage(target);
+      setPageInput("");
+    }
   };
 
-  const isUserLocked = (lockoutEnd: string | null) => {
-    if (!lockoutEnd) return false;
-    return new Date(lockoutEnd) > new Date();
+  const handleUnlock = () => {
+    if (!unlockTarget) return;
+    unlockUser.mutate(unlockTarget.userId, {
+      onSuccess: () => {
+        setFeedback(`Usuario "${unlockTarget.userName}" desbloqueado`);
+        setUnlockTarget(null);
+      },
+    });
   };
 
-  if (loading && users.length === 0) {
+  if (isPending) {
     return (
       <div className="flex justify-center items-center min-h-[400px]">
         <div className="text-gray-500">Cargando usuarios...</div>
@@ -96,20 +200,69 @@ export function AdminUsersPage() {
 
   return (
     <div className="max-w-7xl mx-auto mt-8">
-      <div className="mb-6">
-        <h1 className="text-3xl font-bold">Panel de Administración - Usuarios</h1>
-        <p className="text-gray-600 mt-2">
-          Gestiona todos los usuarios del sistema
-        </p>
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Panel de Administración - Usuarios</h1>
+          <p className="text-gray-600 mt-2">
+            Gestiona todos los usuarios del sistema
+          </p>
+        </div>
+        {/* Exporta todos los usuarios que cumplen los filtros actuales */}
+        <ExportCsvButton
+          filename="usuarios"
+          exportChunks={(onProgress) =>
+            exportUsersCsv(
+              { search: search || undefined, role: role || undefined, sortBy, sortDescending },
+              onProgress
+            )
+          }
+        />
       </div>
 
+      {feedback && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded mb-4">
+          {feedback}
+        </div>
+      )}
+
       {error && (
         <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
-          {error}
+          {getApiErrorMessage(error, "Error al cargar los usuarios")}
         </div>
       )}
 
       <div className="bg-white shadow-md rounded-lg overflow-hidden">
+        {selectedUsers.length > 0 && (
+          <div className="px-4 py-3 bg-blue-50 border-b border-blue-200 flex flex-wrap items-center gap-3 text-sm">
+            <span className="font-medium text-blue-900">
+              {selectedUsers.length} seleccionado{selectedUsers.length !== 1 ? "s" : ""}
+            </span>
+            <button onClick={() => setBulkAction("lock")} className="btn-outline btn-sm">
+              Bloquear
+            </button>
+            <button onClick={() => setBulkAction("unlock")} className="btn-outline btn-sm">
+              Desbloquear
+            </button>
+            <button onClick={() => setBulkAction("assignRole")} className="btn-outline btn-sm">
+              Asignar rol
+            </button>
+            <button onClick={() => setBulkAction("removeRole")} className="btn-outline btn-sm">
+              Quitar rol
+            </button>
+            <button
+              onClick={() => setBulkAction("delete")}
+              className="btn btn-sm bg-red-600 text-white hover:bg-red-700"
+            >
+              Eliminar
+            </button>
+            <button
+              onClick={() => setSelectedIds(new Set())}
+              className="ml-auto text-blue-700 hover:text-blue-900"
+            >
+              Limpiar selección
+            </button>
+          </div>
+        )}
         <div className="p-4 border-b border-gray-200">
           <div className="flex gap-4">
             <form onSubmit={handleSearch} className="flex-1 flex gap-2">
@@ -127,7 +280,25 @@ export function AdminUsersPage() {
                 Buscar
               </button>
             </form>
-            <button className="bg-green-600 hover:bg-green-700 text-white font-medium py-2 px-4 rounded-md transition">
+            <select
+              value={role}
+              onChange={(e) =>
+                updateParams({ role: e.target.value || undefined, page: undefined })
+              }
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="Filtrar por rol"
+            >
+              <option value="">Todos los roles</option>
+              {roles.map((r) => (
+                <option key={r.roleId} value={r.roleName}>
+                  {r.roleName}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => setCreatingUser(true)}
+              className="bg-green-600 hover:bg-green-700 text-white font-medium py-2 px-4 rounded-md transition"
+            >
               + Nuevo Usuario
             </button>
           </div>
@@ -137,12 +308,32 @@ export function AdminUsersPage() {
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
               <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Usuario
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Email
+                <th className="pl-6 py-3 w-4">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    ref={(el) => {
+                      if (el) el.indeterminate = selectedUsers.length > 0 && !allSelected;
+                    }}
+                    onChange={toggleAll}
+                    disabled={users.length === 0}
+                    aria-label="Seleccionar todos los usuarios de la página"
+                  />
                 </th>
+                <SortableHeader
+                  field="userName"
+                  label="Usuario"
+                  sortBy={sortBy}
+                  sortDescending={sortDescending}
+                  onSort={handleSort}
+                />
+                <SortableHeader
+                  field="email"
+                  label="Email"
+                  sortBy={sortBy}
+                  sortDescending={sortDescending}
+                  onSort={handleSort}
+                />
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Roles
                 </th>
@@ -156,7 +347,18 @@ export function AdminUsersPage() {
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
               {users.map((user) => (
-                <tr key={user.userId} className="hover:bg-gray-50">
+                <tr
+                  key={user.userId}
+                  className={selectedIds.has(user.userId) ? "bg-blue-50" : "hover:bg-gray-50"}
+                >
+                  <td className="pl-6 py-4 w-4">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(user.userId)}
+                      onChange={() => toggleSelected(user.userId)}
+                      aria-label={`Seleccionar a ${user.userName}`}
+                    />
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm font-medium text-gray-900">
                       {user.userName}
@@ -188,20 +390,41 @@ export function AdminUsersPage() {
                           No verificado
                         </span>
                       )}
-                      {isUserLocked(user.lockoutEnd) && (
+                      {user.lockoutEnd && isUserLocked(user.lockoutEnd, now) && (
                         <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800">
-                          Bloqueado
+                          Bloqueado · {formatLockoutRemaining(user.lockoutEnd, now)}
                         </span>
                       )}
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                    <button className="text-blue-600 hover:text-blue-900 mr-3">
+                    <button
+                      onClick={() => setEditingUserId(user.userId)}
+                      className="text-blue-600 hover:text-blue-900 mr-3"
+                    >
                       Editar
                     </button>
-                    <button className="text-red-600 hover:text-red-900">
-                      {isUserLocked(user.lockoutEnd) ? "Desbloquear" : "Bloquear"}
-                    </button>
+                    {isUserLocked(user.lockoutEnd, now) ? (
+                      <button
+                        onClick={() => setUnlockTarget(user)}
+                        className="text-green-600 hover:text-green-900"
+                      >
+                        Desbloquear
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => setLockTarget(user)}
+                        disabled={user.userId === session?.userId}
+                        title={
+                          user.userId === session?.userId
+                            ? "No puedes bloquear tu propia cuenta"
+                            : undefined
+                        }
+                        className="text-red-600 hover:text-red-900 disabled:opacity-40 disabled:cursor-not-allowed"
+                      >
+                        Bloquear
+                      </button>
+                    )}
                   </td>
                 </tr>
               ))}
@@ -209,48 +432,142 @@ export function AdminUsersPage() {
           </table>
         </div>
 
-        {pagination.totalPages > 1 && (
-          <div className="bg-gray-50 px-4 py-3 border-t border-gray-200 sm:px-6">
-            <div className="flex items-center justify-between">
-              <div className="text-sm text-gray-700">
-                Mostrando{" "}
-                <span className="font-medium">
-                  {(pagination.page - 1) * pagination.pageSize + 1}
-                </span>{" "}
-                a{" "}
-                <span className="font-medium">
-                  {Math.min(
-                    pagination.page * pagination.pageSize,
-                    pagination.totalCount
-                  )}
-                </span>{" "}
-                de{" "}
-                <span className="font-medium">{pagination.totalCount}</span>{" "}
-                resultados
-              </div>
-              <div className="flex gap-2">
-                <button
-                  onClick={() => loadUsers(pagination.page - 1)}
-                  disabled={pagination.page === 1 || loading}
-                  className="px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  Anterior
-                </button>
-                <span className="px-3 py-1 text-sm text-gray-700">
-                  Página {pagination.page} de {pagination.totalPages}
-                </span>
-                <button
-                  onClick={() => loadUsers(pagination.page + 1)}
-                  disabled={pagination.page === pagination.totalPages || loading}
-                  className="px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  Siguiente
-                </button>
-              </div>
-            </div>
+        <div className="bg-gray-50 px-4 py-3 border-t border-gray-200 sm:px-6 flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3">
+          <div className="flex items-center gap-4 text-sm text-gray-700">
+            <span>
+              {pagination.totalCount === 0 ? (
+                "Sin resultados"
+              ) : (
+                <>
+                  Mostrando{" "}
+                  <span className="font-medium">
+                    {(pagination.page - 1) * pagination.pageSize + 1}
+                  </span>{" "}
+                  a{" "}
+                  <span className="font-medium">
+                    {Math.min(pagination.page * pagination.pageSize, pagination.totalCount)}
+                  </span>{" "}
+                  de <span className="font-medium">{pagination.totalCount}</span> resultados
+                </>
+              )}
+            </span>
+            <label className="flex items-center gap-2">
+              Por página
+              <select
+                value={pageSize}
+                onChange={(e) =>
+                  updateParams({
+                    pageSize:
+                      Number(e.target.value) === DEFAULT_PAGE_SIZE ? undefined : e.target.value,
+                    page: undefined,
+                  })
+                }
+                className="px-2 py-1 border border-gray-300 rounded-md"
+              >
+                {PAGE_SIZE_OPTIONS.map((size) => (
+                  <option key={size} value={size}>
+                    {size}
+                  </option>
+                ))}
+              </select>
+            </label>
           </div>
-        )}
+
+          {pagination.totalPages > 1 && (
+            <div className="flex items-center gap-4">
+              <Pagination
+                page={pagination.page}
+                totalPages={pagination.totalPages}
+                onPageChange={goToPage}
+                disabled={loading}
+              />
+              <form onSubmit={handlePageJump} className="flex items-center gap-2 text-sm">
+                <label htmlFor="users-page-jump" className="text-gray-700 whitespace-nowrap">
+                  Ir a
+                </label>
+                <input
+                  id="users-page-jump"
+                  type="number"
+                  min={1}
+                  max={pagination.totalPages}
+                  value={pageInput}
+                  onChange={(e) => setPageInput(e.target.value)}
+                  className="w-16 px-2 py-1 border border-gray-300 rounded-md"
+                />
+              </form>
+            </div>
+          )}
+        </div>
       </div>
+
+      {bulkAction && (
+        <BulkUserActionDialog
+          users={selectedUsers}
+          actionType={bulkAction}
+          onClose={() => setBulkAction(null)}
+          onFinished={() => {
+            setBulkAction(null);
+            setSelectedIds(new Set());
+          }}
+        />
+      )}
+
+      {creatingUser && (
+        <CreateUserModal
+          onClose={() => setCreatingUser(false)}
+          onCreated={(message) => {
+            setCreatingUser(false);
+            setFeedback(message);
+          }}
+        />
+      )}
+
+      {editingUserId && (
+        <EditUserModal
+          userId={editingUserId}
+          onClose={() => setEditingUserId(null)}
+          onSaved={(message) => {
+            setEditingUserId(null);
+            setFeedback(message);
+          }}
+        />
+      )}
+
+      {lockTarget && (
+        <LockUserDialog
+          user={lockTarget}
+          onClose={() => setLockTarget(null)}
+          onDone={(message) => {
+            setLockTarget(null);
+            setFeedback(message);
+          }}
+        />
+      )}
+
+      <ConfirmDialog
+        open={unlockTarget !== null}
+        title="Desbloquear usuario"
+        confirmLabel="Desbloquear"
+        onConfirm={handleUnlock}
+        onClose={() => {
+          setUnlockTarget(null);
+          unlockUser.reset();
+        }}
+        loading={unlockUser.isPending}
+        error={
+          unlockUser.error
+            ? getApiErrorMessage(unlockUser.error, "No se pudo desbloquear el usuario")
+            : undefined
+        }
+      >
+        {unlockTarget?.lockoutEnd && (
+          <p>
+            ¿Desbloquear a <strong>{unlockTarget.userName}</strong>? Tiempo restante de bloqueo:{" "}
+            {formatLockoutRemaining(unlockTarget.lockoutEnd, now)}. También se reiniciará su
+            contador de intentos fallidos.
+          </p>
+        )}
+      </ConfirmDialog>
     </div>
   );
 }
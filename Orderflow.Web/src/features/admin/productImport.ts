@@ -0,0 +1,98 @@
+import type { CategoryResponse, CreateProductRequest } from "../catalog/catalogApi";
+import { validateProductFields } from "./productValidation";
+
+// Columnas admitidas; la categoría puede indicarse por id o por nombre
+export const PRODUCT_IMPORT_COLUMNS = [
+  "name",
+  "description",
+  "price",
+  "initialStock",
+  "categoryId",
+  "category",
+] as const;
+
+export interface ProductImportRow {
+  // Línea del archivo (la cabecera es la 1)
+  line: number;
+  name: string;
+  request: CreateProductRequest | null;
+  errors: string[];
+}
+
+function normalizeHeader(header: string) {
+  return header.trim().toLowerCase();
+}
+
+// "12,50" también se acepta como precio
+function normalizeDecimal(value: string) {
+  const trimmed = value.trim();
+  return trimmed.includes(",") && !trimmed.includes(".") ? trimmed.replace(",", ".") : trimmed;
+}
+
+export function parseProductImport(
+  rows: string[][],
+  categories: CategoryResponse[]
+): { rows: ProductImportRow[]; error?: string } {
+  if (rows.length === 0) {
+    return { rows: [], error: "El archivo está vacío" };
+  }
+
+  const headers = rows[0].map(normalizeHeader);
+  const column = (name: string) => headers.indexOf(name.toLowerCase());
+  const missing = ["name", "price"].filter((name) => column(name) < 0);
+  if (column("categoryId") < 0 && column("category") < 0) missing.push("categoryId o category");
+  if (missing.length > 0) {
+    return { rows: [], error: `Faltan columnas obligatorias: ${missing.join(", ")}` };
+  }
+
+  const categoriesByName = new Map(categories.map((c) => [c.name.trim().toLowerCase(), c]));
+  const categoryIds = new Set(categories.map((c) => c.id));
+  const read = (row: string[], name: string) => {
+    const index = column(name);
+    return index >= 0 ? (row[index] ?? "").trim() : "";
+  };
+
+  const parsed = rows.slice(1).map((row, i): ProductImportRow => {
+    const errors: string[] = [];
+
+    let categoryId = read(row, "categoryId");
+    const categoryName = read(row, "category");
+    if (categoryId) {
+      if (!categoryIds.has(Number(categoryId))) errors.push(`No existe la categoría ${categoryId}`);
+    } else if (categoryName) {
+      const category = categoriesByName.get(categoryName.toLowerCase());
+      if (category) categoryId = category.id.toString();
+      else errors.push(`No existe la categoría "${categoryName}"`);
+    }
+
+    const values = {
+      name: read(row, "name"),
+      description: read(row, "description"),
+      price: normalizeDecimal(read(row, "price")),
+      initialStock: read(row, "initialStock") || "0",
+      categoryId,
+    };
+    const fieldErrors = validateProductFields(values, { isNew: true });
+    // Si la categoría no se encontró ya hay un error más concreto
+    if (errors.length > 0) delete fieldErrors.categoryId;
+    errors.unshift(...Object.values(fieldErrors));
+
+    return {
+      line: i + 2,
+      name: values.name,
+      errors,
+      request:
+        errors.length === 0
+          ? {
+              name: values.name,
+              description: values.description || null,
+              price: Number(values.price),
+              initialStock: Number(values.initialStock),
+              categoryId: Number(values.categoryId),
+            }
+          : null,
+    };
+  });
+
+  return { rows: parsed };
+}
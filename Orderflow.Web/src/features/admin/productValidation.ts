@@ -0,0 +1,38 @@
+// Límites de columna de Orderflow.Catalog (CatalogDbContext)
+export const MAX_PRODUCT_NAME_LENGTH = 200;
+export const MAX_PRODUCT_DESCRIPTION_LENGTH = 1000;
+
+export type ProductFieldErrors = Partial<
+  Record<"name" | "description" | "price" | "initialStock" | "categoryId", string>
+>;
+
+// Valores tal como los escribe el usuario (formulario o CSV)
+export interface ProductFieldValues {
+  name: string;
+  description: string;
+  price: string;
+  initialStock: string;
+  categoryId: string;
+}
+
+export function validateProductFields(
+  values: ProductFieldValues,
+  { isNew }: { isNew: boolean }
+): ProductFieldErrors {
+  const result: ProductFieldErrors = {};
+  const price = Number(values.price);
+  const initialStock = Number(values.initialStock);
+
+  if (!values.name.trim()) result.name = "El nombre es obligatorio";
+  else if (values.name.trim().length > MAX_PRODUCT_NAME_LENGTH)
+    result.name = `Máximo ${MAX_PRODUCT_NAME_LENGTH} caracteres`;
+  if (values.description.length > MAX_PRODUCT_DESCRIPTION_LENGTH)
+    result.description = `Máximo ${MAX_PRODUCT_DESCRIPTION_LENGTH} caracteres`;
+  if (!values.price || !Number.isFinite(price) || price <= 0)
+    result.price = "El precio debe ser mayor que 0";
+  if (isNew && (!Number.isInteger(initialStock) || initialStock < 0))
+    result.initialStock = "El stock inicial debe ser un entero mayor o igual a 0";
+  if (!values.categoryId) result.categoryId = "Selecciona una categoría";
+
+  return result;
+}
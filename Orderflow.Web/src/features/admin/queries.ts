@@ -0,0 +1,279 @@
+import {
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  useQueryClient,
+  type QueryClient,
+} from "@tanstack/react-query";
+import { mapWithConcurrency } from "../../lib/concurrency";
+import { queryKeys } from "../../lib/queryKeys";
+import type { PaginatedResponse, PaginationQuery } from "../../lib/types";
+import type { UserResponse } from "../auth/identityApi";
+import type { OrderStatus } from "../orders/ordersApi";
+import {
+  adminApi,
+  type AdminOrderQueryParams,
+  type CreateRoleRequest,
+  type CreateUserRequest,
+  type LockUserRequest,
+  type UpdateRoleRequest,
+  type UpdateUserRequest,
+  type UserQueryParameters,
+} from "./adminApi";
+import { INDEFINITE_LOCKOUT_END } from "./lockout";
+import { ROLES } from "./roles";
+
+export function useAdminUsers(params: UserQueryParameters, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.adminUsers.list(params),
+    queryFn: () => adminApi.getUsers(params),
+    enabled,
+    // Mantener la página anterior visible mientras carga la siguiente
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useAdminUser(userId: string, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.adminUsers.detail(userId),
+    queryFn: () => adminApi.getUser(userId),
+    enabled,
+  });
+}
+
+export function useAdminRoles() {
+  return useQuery({
+    queryKey: queryKeys.adminRoles.list(),
+    queryFn: adminApi.getRoles,
+  });
+}
+
+export function useRoleUsers(roleId: string, params: PaginationQuery, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.adminRoles.users(roleId, params),
+    queryFn: () => adminApi.getRoleUsers(roleId, params),
+    enabled,
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useCreateRole() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (request: CreateRoleRequest) => adminApi.createRole(request),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.adminRoles.all }),
+  });
+}
+
+export function useUpdateRole() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ roleId, request }: { roleId: string; request: UpdateRoleRequest }) =>
+      adminApi.updateRole(roleId, request),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.adminRoles.all });
+      // Los usuarios muestran el nombre del rol
+      queryClient.invalidateQueries({ queryKey: queryKeys.adminUsers.all });
+    },
+  });
+}
+
+export function useDeleteRole() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (roleId: string) => adminApi.deleteRole(roleId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.adminRoles.all }),
+  });
+}
+
+export function useCreateUser() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (request: CreateUserRequest) => adminApi.createUser(request),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.adminUsers.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.adminRoles.all });
+    },
+  });
+}
+
+// Actualiza la fila en las páginas ya cargadas sin volver a pedirlas
+function updateUserInLists(
+  queryClient: QueryClient,
+  userId: string,
+  update: (user: UserResponse) => UserResponse
+) {
+  queryClient.setQueriesData<PaginatedResponse<UserResponse>>(
+    { queryKey: [...queryKeys.adminUsers.all, "list"] },
+    (old) =>
+      old && {
+        ...old,
+        data: old.data.map((u) => (u.userId === userId ? update(u) : u)),
+      }
+  );
+  queryClient.invalidateQueries({ queryKey: queryKeys.adminUsers.detail(userId) });
+}
+
+interface UpdateUserVariables {
+  userId: string;
+  request: UpdateUserRequest;
+  addRoles: string[];
+  removeRoles: string[];
+}
+
+// Datos del usuario y roles en una sola operación. Los roles van en endpoints
+// separados, así que se aplican uno a uno tras guardar los datos.
+export function useUpdateUser() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ userId, request, addRoles, removeRoles }: UpdateUserVariables) => {
+      const user = await adminApi.updateUser(userId, request);
+      for (const role of addRoles) {
+        await adminApi.assignUserRole(userId, role);
+      }
+      for (const role of removeRoles) {
+        await adminApi.removeUserRole(userId, role);
+      }
+      const roles = [...user.roles.filter((r) => !removeRoles.includes(r)), ...addRoles];
+      return { ...user, roles: [...new Set(roles)] };
+    },
+    onSuccess: (user) => {
+      updateUserInLists(queryClient, user.userId, () => user);
+      queryClient.invalidateQueries({ queryKey: queryKeys.adminRoles.all });
+    },
+    onError: () => {
+      // Puede haberse guardado una parte (datos o algunos roles)
+      queryClient.invalidateQueries({ queryKey: queryKeys.adminUsers.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.adminRoles.all });
+    },
+  });
+}
+
+export function useLockUser() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ userId, request }: { userId: string; request: LockUserRequest }) =>
+      adminApi.lockUser(userId, request),
+    onSuccess: (_data, { userId, request }) => {
+      // Sin fecha de fin el backend usa DateTimeOffset.MaxValue
+      const lockoutEnd = request.lockoutEnd ?? INDEFINITE_LOCKOUT_END;
+      updateUserInLists(queryClient, userId, (u) => ({ ...u, lockoutEnd }));
+    },
+  });
+}
+
+export function useUnlockUser() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (userId: string) => adminApi.unlockUser(userId),
+    onSuccess: (_data, userId) => {
+      updateUserInLists(queryClient, userId, (u) => ({
+        ...u,
+        lockoutEnd: null,
+        accessFailedCount: 0,
+      }));
+    },
+  });
+}
+
+export type BulkUserAction =
+  | { type: "lock"; lockoutEnd: string | null }
+  | { type: "unlock" }
+  | { type: "assignRole"; roleName: string }
+  | { type: "removeRole"; roleName: string }
+  | { type: "delete" };
+
+export interface BulkUserResult {
+  user: UserResponse;
+  ok: boolean;
+  // Mensaje local (p. ej. acción sobre la propia cuenta) o error de la API
+  error?: unknown;
+}
+
+const BULK_CONCURRENCY = 4;
+
+function runBulkUserAction(user: UserResponse, action: BulkUserAction) {
+  switch (action.type) {
+    case "lock":
+      return adminApi.lockUser(user.userId, { lockoutEnd: action.lockoutEnd });
+    case "unlock":
+      return adminApi.unlockUser(user.userId);
+    case "assignRole":
+      return adminApi.assignUserRole(user.userId, action.roleName);
+    case "removeRole":
+      return adminApi.removeUserRole(user.userId, action.roleName);
+    case "delete":
+      return adminApi.deleteUser(user.userId);
+  }
+}
+
+interface BulkUserVariables {
+  users: UserResponse[];
+  action: BulkUserAction;
+  // Usuario de la sesión: se excluye de las acciones que le dejarían sin acceso
+  currentUserId?: string;
+  onProgress?: (done: number) => void;
+}
+
+// Reparte la acción entre los endpoints por usuario con concurrencia limitada
+export function useBulkUserAction() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ users, action, currentUserId, onProgress }: BulkUserVariables) => {
+      let done = 0;
+      return mapWithConcurrency(users, BULK_CONCURRENCY, async (user) => {
+        let result: BulkUserResult;
+        const locksSelfOut =
+          action.type === "lock" ||
+          action.type === "delete" ||
+          (action.type === "removeRole" && action.roleName === ROLES.Admin);
+
+        if (user.userId === currentUserId && locksSelfOut) {
+          result = { user, ok: false, error: "No se aplica a tu propia cuenta" };
+        } else {
+          try {
+            await runBulkUserAction(user, action);
+            result = { user, ok: true };
+          } catch (error) {
+            result = { user, ok: false, error };
+          }
+        }
+        onProgress?.(++done);
+        return result;
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.adminUsers.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.adminRoles.all });
+    },
+  });
+}
+
+export function useAdminOrders(params: AdminOrderQueryParams) {
+  return useQuery({
+    queryKey: queryKeys.adminOrders.list(params),
+    queryFn: () => adminApi.getOrders(params),
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useAdminOrder(id: number, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.adminOrders.detail(id),
+    queryFn: () => adminApi.getOrder(id),
+    enabled,
+  });
+}
+
+export function useUpdateOrderStatus() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ orderId, status }: { orderId: number; status: OrderStatus }) =>
+      adminApi.updateOrderStatus(orderId, { status }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.adminOrders.all });
+      // El pedido puede ser del propio admin
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+    },
+  });
+}
@@ -0,0 +1,22 @@
+// Roles predefinidos de Orderflow.Identity (Data/Roles.cs): no se renombran ni eliminan
+export const ROLES = {
+  Admin: "Admin",
+  Customer: "Customer",
+} as const;
+
+export const BUILT_IN_ROLES: string[] = Object.values(ROLES);
+
+export function isBuiltInRole(roleName: string) {
+  return BUILT_IN_ROLES.includes(roleName);
+}
+
+// Igual que CreateRoleRequestValidator y UpdateRoleRequestValidator
+export const MAX_ROLE_NAME_LENGTH = 256;
+const ROLE_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+export function validateRoleName(roleName: string): string | undefined {
+  if (!roleName) return "El nombre del rol es obligatorio";
+  if (roleName.length > MAX_ROLE_NAME_LENGTH) return `Máximo ${MAX_ROLE_NAME_LENGTH} caracteres`;
+  if (!ROLE_NAME_PATTERN.test(roleName))
+    return "Solo se permiten letras, números, guiones y guiones bajos";
+}
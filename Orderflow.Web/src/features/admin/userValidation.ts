@@ -0,0 +1,41 @@
+// Reglas espejo de los validadores de Orderflow.Identity (Validators/Users)
+export const MAX_EMAIL_LENGTH = 256;
+export const MAX_USERNAME_LENGTH = 256;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const USERNAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+const PHONE_PATTERN = /^\+?[1-9]\d{1,14}$/;
+
+export const PASSWORD_RULES = [
+  { test: (p: string) => p.length >= 8, message: "Al menos 8 caracteres" },
+  { test: (p: string) => /[A-Z]/.test(p), message: "Una letra mayúscula" },
+  { test: (p: string) => /[a-z]/.test(p), message: "Una letra minúscula" },
+  { test: (p: string) => /\d/.test(p), message: "Un número" },
+  { test: (p: string) => /[^\da-zA-Z]/.test(p), message: "Un carácter especial" },
+];
+
+export function validateEmail(email: string): string | undefined {
+  if (!email) return "El email es obligatorio";
+  if (email.length > MAX_EMAIL_LENGTH) return `Máximo ${MAX_EMAIL_LENGTH} caracteres`;
+  if (!EMAIL_PATTERN.test(email)) return "El formato del email no es válido";
+}
+
+export function validateUserName(userName: string): string | undefined {
+  if (!userName) return "El nombre de usuario es obligatorio";
+  if (userName.length > MAX_USERNAME_LENGTH) return `Máximo ${MAX_USERNAME_LENGTH} caracteres`;
+  if (!USERNAME_PATTERN.test(userName))
+    return "Solo se permiten letras, números, guiones y guiones bajos";
+}
+
+export function validatePassword(password: string): string | undefined {
+  if (!password) return "La contraseña es obligatoria";
+  const missing = PASSWORD_RULES.filter((rule) => !rule.test(password));
+  if (missing.length > 0)
+    return `La contraseña necesita: ${missing.map((r) => r.message.toLowerCase()).join(", ")}`;
+}
+
+// El teléfono es opcional
+export function validatePhoneNumber(phoneNumber: string): string | undefined {
+  if (phoneNumber && !PHONE_PATTERN.test(phoneNumber))
+    return "Formato de teléfono no válido (p. ej. +5491112345678)";
+}
@@ -0,0 +1,18 @@
+import { createContext } from "react";
+import type { AuthSession } from "../../lib/storage";
+import type { LoginRequest } from "./identityApi";
+
+// Margen antes de la expiración del token en el que se avisa al usuario
+export const SESSION_WARNING_MS = 2 * 60 * 1000;
+
+export interface AuthContextValue {
+  session: AuthSession | null;
+  isAuthenticated: boolean;
+  hasRole: (role: string) => boolean;
+  login: (credentials: LoginRequest) => Promise<AuthSession>;
+  logout: () => void;
+  // Cierra las demás sesiones del usuario y sustituye el token de esta
+  revokeOtherSessions: () => Promise<AuthSession>;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
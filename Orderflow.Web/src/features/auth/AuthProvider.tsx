@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { setUnauthorizedHandler } from "../../lib/api";
+import { authStorage, createSession, type AuthSession } from "../../lib/storage";
+import { router } from "../../app/router";
+import { AuthContext, type AuthContextValue } from "./AuthContext";
+import { identityApi, type LoginRequest } from "./identityApi";
+
+// setTimeout no admite retardos mayores a ~24,8 días
+const MAX_TIMEOUT_MS = 2_147_483_647;
+
+function loadSession(): AuthSession | null {
+  const stored = authStorage.get();
+  if (stored && stored.expiresAt > Date.now()) {
+    return stored;
+  }
+  authStorage.clear();
+  return null;
+}
+
+function redirectToLogin(message: string) {
+  const { pathname, search } = window.location;
+  if (pathname === "/login") return;
+  router.navigate(`/login?returnTo=${encodeURIComponent(pathname + search)}`, {
+    replace: true,
+    state: { warning: message },
+  });
+}
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const queryClient = useQueryClient();
+  const [session, setSession] = useState(loadSession);
+
+  // Mantener la sesión sincronizada entre pestañas
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === null || e.key === authStorage.key) {
+        queryClient.clear();
+        setSession(loadSession());
+      }
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, [queryClient]);
+
+  const login = useCallback(async (credentials: LoginRequest) => {
+    const response = await identityApi.login(credentials);
+    const newSession = createSession(response);
+    // Los datos en caché pertenecen al usuario anterior
+    queryClient.clear();
+    authStorage.set(newSession);
+    setSession(newSession);
+    return newSession;
+  }, [queryClient]);
+
+  const logout = useCallback(() => {
+    authStorage.clear();
+    queryClient.clear();
+    setSession(null);
+  }, [queryClient]);
+
+  const revokeOtherSessions = useCallback(async () => {
+    const response = await identityApi.revokeOtherSessions();
+    const newSession = createSession(response);
+    // Mismo usuario: la caché sigue siendo válida
+    authStorage.set(newSession);
+    setSession(newSession);
+    return newSession;
+  }, []);
+
+  // Cierre automático cuando el token expira
+  useEffect(() => {
+    if (!session) return;
+
+    const timeout = setTimeout(() => {
+      redirectToLogin("Tu sesión ha expirado. Inicia sesión de nuevo.");
+      logout();
+    }, Math.min(Math.max(session.expiresAt - Date.now(), 0), MAX_TIMEOUT_MS));
+
+    return () => clearTimeout(timeout);
+  }, [session, logout]);
+
+  // Manejo global de 401: el token fue rechazado por el gateway
+  useEffect(() => {
+    setUnauthorizedHandler(() => {
+      redirectToLogin("Tu sesión ya no es válida. Inicia sesión de nuevo.");
+      logout();
+    });
+    return () => setUnauthorizedHandler(null);
+  }, [logout]);
+
+  const hasRole = useCallback(
+    (role: string) => session?.roles.includes(role) ?? false,
+    [session]
+  );
+
+  const value = useMemo<AuthContextValue>(
+    () => ({
+      session,
+      isAuthenticated: session !== null,
+      hasRole,
+      login,
+      logout,
+      revokeOtherSessions,
+    }),
+    [session, hasRole, login, logout, revokeOtherSessions]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
@@ -0,0 +1,20 @@
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import { useAuth } from "../useAuth";
+
+// Protege las rutas hijas: sin sesión redirige a /login?returnTo=<ruta actual>
+export function RequireAuth() {
+  const { isAuthenticated } = useAuth();
+  const location = useLocation();
+
+  if (!isAuthenticated) {
+    const returnTo = location.pathname + location.search;
+    return (
+      <Navigate
+        to={`/login?returnTo=${encodeURIComponent(returnTo)}`}
+        replace
+      />
+    );
+  }
+
+  return <Outlet />;
+}
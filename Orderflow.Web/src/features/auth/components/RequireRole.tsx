@@ -0,0 +1,14 @@
+import { Outlet } from "react-router-dom";
+import { useAuth } from "../useAuth";
+import { ForbiddenPage } from "../pages/ForbiddenPage";
+
+// Debe anidarse dentro de RequireAuth; sin el rol muestra un 403
+export function RequireRole({ role }: { role: string }) {
+  const { hasRole } = useAuth();
+
+  if (!hasRole(role)) {
+    return <ForbiddenPage />;
+  }
+
+  return <Outlet />;
+}
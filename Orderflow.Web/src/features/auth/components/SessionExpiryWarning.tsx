@@ -0,0 +1,73 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { SESSION_WARNING_MS } from "../AuthContext";
+import { useAuth } from "../useAuth";
+
+function formatRemaining(ms: number) {
+  const totalSeconds = Math.max(Math.ceil(ms / 1000), 0);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+// Aviso previo a la expiración del JWT; el cierre lo hace AuthProvider
+export function SessionExpiryWarning() {
+  const { session, logout } = useAuth();
+  const location = useLocation();
+  const [now, setNow] = useState(() => Date.now());
+  const [dismissedAt, setDismissedAt] = useState<number | null>(null);
+
+  const expiresAt = session?.expiresAt ?? null;
+
+  useEffect(() => {
+    if (expiresAt === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [expiresAt]);
+
+  if (expiresAt === null || dismissedAt === expiresAt) {
+    return null;
+  }
+
+  const remaining = expiresAt - now;
+  if (remaining > SESSION_WARNING_MS || remaining <= 0) {
+    return null;
+  }
+
+  const returnTo = encodeURIComponent(location.pathname + location.search);
+
+  return (
+    <div className="bg-yellow-50 border-b border-yellow-200 animate-slide-up">
+      <div className="mx-auto max-w-7xl px-4 py-3 flex flex-col sm:flex-row sm:items-center gap-3 text-sm text-yellow-800">
+        <div className="flex items-center gap-2 flex-1">
+          <svg className="w-5 h-5 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+            <path
+              fillRule="evenodd"
+              d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z"
+              clipRule="evenodd"
+            />
+          </svg>
+          <span>
+            Tu sesión expirará en <strong>{formatRemaining(remaining)}</strong>.
+            Guarda tus cambios y vuelve a iniciar sesión para continuar.
+          </span>
+        </div>
+        <div className="flex gap-2">
+          <Link
+            to={`/login?returnTo=${returnTo}`}
+            onClick={logout}
+            className="btn-primary btn-sm"
+          >
+            Iniciar sesión de nuevo
+          </Link>
+          <button
+            onClick={() => setDismissedAt(expiresAt)}
+            className="btn-outline btn-sm"
+          >
+            Entendido
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
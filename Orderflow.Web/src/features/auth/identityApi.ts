@@ -0,0 +1,119 @@
+import axios from "axios";
+import { api } from "../../lib/api";
+import { config } from "../../lib/config";
+
+// Tipos espejo de Orderflow.Identity.DTOs (Auth y Users)
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+export interface LoginResponse {
+  accessToken: string;
+  tokenType: string;
+  expiresIn: number;
+  userId: string;
+  email: string;
+  roles: string[];
+}
+
+export interface RegisterRequest {
+  email: string;
+  password: string;
+  confirmPassword: string;
+}
+
+export interface RegisterResponse {
+  userId: string;
+  email: string;
+  message: string;
+}
+
+export interface UserResponse {
+  userId: string;
+  email: string;
+  userName: string;
+  emailConfirmed: boolean;
+  lockoutEnd: string | null;
+  lockoutEnabled: boolean;
+  accessFailedCount: number;
+  roles: string[];
+}
+
+export interface UserDetailResponse {
+  userId: string;
+  email: string;
+  userName: string;
+  emailConfirmed: boolean;
+  phoneNumber: string | null;
+  phoneNumberConfirmed: boolean;
+  twoFactorEnabled: boolean;
+  lockoutEnd: string | null;
+  lockoutEnabled: boolean;
+  accessFailedCount: number;
+  roles: string[];
+}
+
+export interface UpdateProfileRequest {
+  userName: string;
+  phoneNumber: string | null;
+}
+
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+  confirmNewPassword: string;
+}
+
+export interface PasswordChangeResponse {
+  message: string;
+}
+
+const AUTH = `${config.apiPrefix}/auth`;
+const USERS = `${config.apiPrefix}/users`;
+
+// Título del ProblemDetails de UserController.ChangeMyPassword. Cualquier otro 401
+// (token caducado o revocado) debe seguir cerrando la sesión.
+const WRONG_CURRENT_PASSWORD_TITLE = "Current password is incorrect";
+
+export function isWrongCurrentPasswordError(err: unknown) {
+  return (
+    axios.isAxiosError(err) &&
+    err.response?.status === 401 &&
+    err.response.data?.title === WRONG_CURRENT_PASSWORD_TITLE
+  );
+}
+
+export const identityApi = {
+  async login(request: LoginRequest) {
+    const { data } = await api.post<LoginResponse>(`${AUTH}/login`, request);
+    return data;
+  },
+  async register(request: RegisterRequest) {
+    const { data } = await api.post<RegisterResponse>(`${AUTH}/register`, request);
+    return data;
+  },
+
+  async getMyProfile() {
+    const { data } = await api.get<UserDetailResponse>(`${USERS}/me`);
+    return data;
+  },
+  async updateMyProfile(request: UpdateProfileRequest) {
+    const { data } = await api.put<UserResponse>(`${USERS}/me`, request);
+    return data;
+  },
+  async changeMyPassword(request: ChangePasswordRequest) {
+    const { data } = await api.post<PasswordChangeResponse>(
+      `${USERS}/me/password`,
+      request,
+      { isExpectedUnauthorized: isWrongCurrentPasswordError }
+    );
+    return data;
+  },
+  // Los tokens emitidos antes se rechazan en el gateway; devuelve uno nuevo para esta sesión
+  async revokeOtherSessions() {
+    const { data } = await api.post<LoginResponse>(`${USERS}/me/sessions/revoke-others`);
+    return data;
+  },
+};
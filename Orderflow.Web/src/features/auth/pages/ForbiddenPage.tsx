@@ -0,0 +1,33 @@
+import { Link } from "react-router-dom";
+
+export function ForbiddenPage() {
+  return (
+    <div className="max-w-md mx-auto mt-16 text-center animate-fade-in">
+      <div className="flex justify-center mb-4">
+        <div className="bg-red-100 p-4 rounded-full">
+          <svg
+            className="w-10 h-10 text-red-600"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636"
+            />
+          </svg>
+        </div>
+      </div>
+      <p className="text-5xl font-bold text-gray-900 mb-2">403</p>
+      <h1 className="text-xl font-semibold text-gray-800 mb-2">Acceso denegado</h1>
+      <p className="text-gray-600 mb-6">
+        No tienes permisos para ver esta página.
+      </p>
+      <Link to="/" className="btn-primary btn-md">
+        Volver al catálogo
+      </Link>
+    </div>
+  );
+}
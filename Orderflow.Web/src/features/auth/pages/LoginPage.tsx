@@ -1,12 +1,22 @@
 import { useState } from "react";
-import { useNavigate, Link, useLocation } from "react-router-dom";
-import { api } from "../../../lib/api";
-import { tokenStorage } from "../../../lib/storage";
+import { useNavigate, Link, useLocation, useSearchParams } from "react-router-dom";
+import { getApiErrorMessage } from "../../../lib/api";
+import { useAuth } from "../useAuth";
 
 export function LoginPage() {
   const navigate = useNavigate();
+  const { login } = useAuth();
   const location = useLocation();
+  const [searchParams] = useSearchParams();
   const successMessage = location.state?.message;
+  const warningMessage = location.state?.warning;
+
+  // Solo se aceptan rutas internas para evitar redirecciones abiertas
+  const returnTo = searchParams.get("returnTo");
+  const redirectTo =
+    returnTo && returnTo.startsWith("/") && !returnTo.startsWith("//")
+      ? returnTo
+      : "/";
 
   const [formData, setFormData] = useState({
     email: "",
@@ -21,26 +31,16 @@ export function LoginPage() {
     setLoading(true);
 
     try {
-      const response = await api.post("/api/v1/auth/login", {
+      // Guarda la sesión completa; el interceptor de api añade el token
+      await login({
         email: formData.email,
         password: formData.password,
       });
 
-      // Guardar el token en localStorage
-      const token = response.data.token;
-      tokenStorage.set(token);
-
-      // Configurar el header de autorización para futuras peticiones
-      api.defaults.headers.common["Authorization"] = `Bearer ${token}`;
-
-      // Redirigir a la página principal
-      navigate("/");
-    } catch (err: any) {
-      setError(
-        err.response?.data?.message ||
-          err.response?.data?.errors?.join(", ") ||
-          "Email o contraseña incorrectos"
-      );
+      // Volver a la página protegida que se intentó abrir, o a la principal
+      navigate(redirectTo, { replace: true });
+    } catch (err) {
+      setError(getApiErrorMessage(err, "Email o contraseña incorrectos"));
     } finally {
       setLoading(false);
     }
@@ -90,6 +90,19 @@ export function LoginPage() {
             </div>
           )}
 
+          {warningMessage && !successMessage && (
+            <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-lg mb-4 animate-slide-up flex items-center gap-2">
+              <svg className="w-5 h-5 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+                <path
+                  fillRule="evenodd"
+                  d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z"
+                  clipRule="evenodd"
+                />
+              </svg>
+              {warningMessage}
+            </div>
+          )}
+
           {error && (
             <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4 animate-slide-up flex items-center gap-2">
               <svg className="w-5 h-5 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
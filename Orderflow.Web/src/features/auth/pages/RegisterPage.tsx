@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { useNavigate, Link } from "react-router-dom";
-import { api } from "../../../lib/api";
+import { getApiErrorMessage } from "../../../lib/api";
+import { identityApi } from "../identityApi";
 
 export function RegisterPage() {
   const navigate = useNavigate();
@@ -24,20 +25,19 @@ export function RegisterPage() {
     setLoading(true);
 
     try {
-      await api.post("/api/v1/auth/register", {
+      await identityApi.register({
         email: formData.email,
         password: formData.password,
+        confirmPassword: formData.confirmPassword,
       });
 
       // Redirigir al login después del registro exitoso
       navigate("/login", {
         state: { message: "Registro exitoso. Por favor inicia sesión." },
       });
-    } catch (err: any) {
+    } catch (err) {
       setError(
-        err.response?.data?.message ||
-          err.response?.data?.errors?.join(", ") ||
-          "Error al registrarse. Por favor intenta de nuevo."
+        getApiErrorMessage(err, "Error al registrarse. Por favor intenta de nuevo.")
       );
     } finally {
       setLoading(false);
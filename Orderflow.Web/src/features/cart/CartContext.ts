@@ -0,0 +1,29 @@
+import { createContext } from "react";
+
+// Línea del carrito: se guarda un snapshot del producto al agregarlo
+export interface CartItem {
+  productId: number;
+  name: string;
+  price: number;
+  quantityAvailable: number;
+  quantity: number;
+}
+
+export type CartProduct = Omit<CartItem, "quantity">;
+
+export interface CartContextValue {
+  items: CartItem[];
+  itemCount: number;
+  total: number;
+  isOpen: boolean;
+  addItem: (product: CartProduct, quantity?: number) => void;
+  removeItem: (productId: number) => void;
+  updateQuantity: (productId: number, quantity: number) => void;
+  setAvailability: (productId: number, quantityAvailable: number) => void;
+  clear: () => void;
+  getQuantity: (productId: number) => number;
+  openCart: () => void;
+  closeCart: () => void;
+}
+
+export const CartContext = createContext<CartContextValue | null>(null);
@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useMemo, useReducer, useState } from "react";
+import { cartStorage } from "../../lib/storage";
+import {
+  CartContext,
+  type CartContextValue,
+  type CartItem,
+  type CartProduct,
+} from "./CartContext";
+
+type CartAction =
+  | { type: "add"; product: CartProduct; quantity: number }
+  | { type: "remove"; productId: number }
+  | { type: "update"; productId: number; quantity: number }
+  | { type: "availability"; productId: number; quantityAvailable: number }
+  | { type: "clear" }
+  | { type: "replace"; items: CartItem[] };
+
+// Las cantidades nunca superan el stock disponible conocido del producto
+function clampQuantity(quantity: number, quantityAvailable: number) {
+  return Math.min(Math.max(Math.floor(quantity), 0), quantityAvailable);
+}
+
+function cartReducer(items: CartItem[], action: CartAction): CartItem[] {
+  switch (action.type) {
+    case "add": {
+      const { product } = action;
+      const existing = items.find((i) => i.productId === product.productId);
+      const quantity = clampQuantity(
+        (existing?.quantity ?? 0) + action.quantity,
+        product.quantityAvailable
+      );
+      if (quantity === 0) {
+        return items;
+      }
+      if (!existing) {
+        return [...items, { ...product, quantity }];
+      }
+      return items.map((i) =>
+        i.productId === product.productId ? { ...product, quantity } : i
+      );
+    }
+    case "remove":
+      return items.filter((i) => i.productId !== action.productId);
+    case "update":
+      return items.flatMap((i) => {
+        if (i.productId !== action.productId) return [i];
+        const quantity = clampQuantity(action.quantity, i.quantityAvailable);
+        return quantity === 0 ? [] : [{ ...i, quantity }];
+      });
+    case "availability":
+      return items.flatMap((i) => {
+        if (i.productId !== action.productId) return [i];
+        const quantity = clampQuantity(i.quantity, action.quantityAvailable);
+        return quantity === 0
+          ? []
+          : [{ ...i, quantity, quantityAvailable: action.quantityAvailable }];
+      });
+    case "clear":
+      return [];
+    case "replace":
+      return action.items;
+  }
+}
+
+export function CartProvider({ children }: { children: React.ReactNode }) {
+  const [items, dispatch] = useReducer(cartReducer, undefined, cartStorage.get);
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    cartStorage.set(items);
+  }, [items]);
+
+  // Mantener el carrito sincronizado entre pestañas
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === null || e.key === cartStorage.key) {
+        dispatch({ type: "replace", items: cartStorage.get() });
+      }
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
+  const addItem = useCallback((product: CartProduct, quantity = 1) => {
+    dispatch({ type: "add", product, quantity });
+  }, []);
+
+  const removeItem = useCallback((productId: number) => {
+    dispatch({ type: "remove", productId });
+  }, []);
+
+  const updateQuantity = useCallback((productId: number, quantity: number) => {
+    dispatch({ type: "update", productId, quantity });
+  }, []);
+
+  // Actualiza el stock conocido de una línea (p. ej. tras un fallo en checkout)
+  const setAvailability = useCallback(
+    (productId: number, quantityAvailable: number) => {
+      dispatch({ type: "availability", productId, quantityAvailable });
+    },
+    []
+  );
+
+  const clear = useCallback(() => {
+    dispatch({ type: "clear" });
+  }, []);
+
+  const getQuantity = useCallback(
+    (productId: number) =>
+      items.find((i) => i.productId === productId)?.quantity ?? 0,
+    [items]
+  );
+
+  const openCart = useCallback(() => setIsOpen(true), []);
+  const closeCart = useCallback(() => setIsOpen(false), []);
+
+  const value = useMemo<CartContextValue>(
+    () => ({
+      items,
+      itemCount: items.reduce((sum, i) => sum + i.quantity, 0),
+      total: items.reduce((sum, i) => sum + i.price * i.quantity, 0),
+      isOpen,
+      addItem,
+      removeItem,
+      updateQuantity,
+      setAvailability,
+      clear,
+      getQuantity,
+      openCart,
+      closeCart,
+    }),
+    [
+      items,
+      isOpen,
+      addItem,
+      removeItem,
+      updateQuantity,
+      setAvailability,
+      clear,
+      getQuantity,
+      openCart,
+      closeCart,
+    ]
+  );
+
+  return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
+}
@@ -0,0 +1,155 @@
+import { useEffect } from "react";
+import { Link } from "react-router-dom";
+import { formatCurrency } from "../../../lib/format";
+import { useCart } from "../useCart";
+
+export function CartDrawer() {
+  const { items, total, isOpen, closeCart, removeItem, updateQuantity, clear } =
+    useCart();
+
+  // Cerrar con Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") closeCart();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isOpen, closeCart]);
+
+  return (
+    <div
+      className={`fixed inset-0 z-[60] ${isOpen ? "" : "pointer-events-none"}`}
+      aria-hidden={!isOpen}
+    >
+      {/* Overlay */}
+      <div
+        onClick={closeCart}
+        className={`absolute inset-0 bg-black/40 transition-opacity duration-300 ${
+          isOpen ? "opacity-100" : "opacity-0"
+        }`}
+      />
+
+      {/* Panel */}
+      <aside
+        role="dialog"
+        aria-label="Carrito de compras"
+        className={`absolute right-0 top-0 h-full w-full max-w-md bg-white shadow-xl flex flex-col transition-transform duration-300 ${
+          isOpen ? "translate-x-0" : "translate-x-full"
+        }`}
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h2 className="text-lg font-bold text-gray-900">Tu carrito</h2>
+          <button
+            onClick={closeCart}
+            className="p-1 text-gray-500 hover:text-gray-700"
+            aria-label="Cerrar carrito"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {items.length === 0 ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-center px-6">
+            <svg className="h-16 w-16 text-gray-300 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={1.5}
+                d="M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z"
+              />
+            </svg>
+            <p className="text-gray-600 font-medium">Tu carrito está vacío</p>
+            <p className="text-sm text-gray-500 mt-1">
+              Agrega productos desde el catálogo
+            </p>
+          </div>
+        ) : (
+          <>
+            <ul className="flex-1 overflow-y-auto divide-y">
+              {items.map((item) => (
+                <li key={item.productId} className="px-6 py-4">
+                  <div className="flex justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{item.name}</p>
+                      <p className="text-sm text-gray-500">
+                        {formatCurrency(item.price)} c/u
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => removeItem(item.productId)}
+                      className="text-sm text-red-600 hover:text-red-800 flex-shrink-0"
+                    >
+                      Quitar
+                    </button>
+                  </div>
+
+                  <div className="flex items-center justify-between mt-3">
+                    <div className="flex items-center border border-gray-300 rounded-lg">
+                      <button
+                        onClick={() => updateQuantity(item.productId, item.quantity - 1)}
+                        className="px-3 py-1 text-gray-700 hover:bg-gray-100 rounded-l-lg"
+                        aria-label="Disminuir cantidad"
+                      >
+                        −
+                      </button>
+                      <input
+                        type="number"
+                        min={1}
+                        max={item.quantityAvailable}
+                        value={item.quantity}
+                        onChange={(e) =>
+                          updateQuantity(item.productId, Number(e.target.value) || 1)
+                        }
+                        className="w-14 text-center border-x border-gray-300 py-1"
+                        aria-label={`Cantidad de ${item.name}`}
+                      />
+                      <button
+                        onClick={() => updateQuantity(item.productId, item.quantity + 1)}
+                        disabled={item.quantity >= item.quantityAvailable}
+                        className="px-3 py-1 text-gray-700 hover:bg-gray-100 rounded-r-lg disabled:opacity-40 disabled:cursor-not-allowed"
+                        aria-label="Aumentar cantidad"
+                      >
+                        +
+                      </button>
+                    </div>
+                    <span className="font-semibold text-gray-900">
+                      {formatCurrency(item.price * item.quantity)}
+                    </span>
+                  </div>
+
+                  {item.quantity >= item.quantityAvailable && (
+                    <p className="text-xs text-yellow-700 mt-2">
+                      Máximo disponible: {item.quantityAvailable}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            <div className="border-t px-6 py-4 space-y-4">
+              <div className="flex justify-between items-center">
+                <span className="text-lg font-bold">Total</span>
+                <span className="text-lg font-bold text-primary-600">
+                  {formatCurrency(total)}
+                </span>
+              </div>
+              <Link
+                to="/checkout"
+                onClick={closeCart}
+                className="btn-primary btn-md w-full shadow-md hover:shadow-lg"
+              >
+                Finalizar compra
+              </Link>
+              <button onClick={clear} className="btn-outline btn-md w-full">
+                Vaciar carrito
+              </button>
+            </div>
+          </>
+        )}
+      </aside>
+    </div>
+  );
+}
@@ -1,6 +1,160 @@
-import { api } from "../../lib/api";
+import { api, toPaginatedResponse } from "../../lib/api";
+import { config } from "../../lib/config";
 
-export async function getProducts() {
-    const { data } = await api.get("/api/v1/products");
-    return data;
+// Tipos espejo de Orderflow.Catalog.DTOs
+
+export interface ProductResponse {
+  id: number;
+  name: string;
+  description: string | null;
+  price: number;
+  quantityAvailable: number;
+  isActive: boolean;
+  categoryId: number;
+  categoryName: string;
+}
+
+export interface ProductListResponse {
+  id: number;
+  name: string;
+  price: number;
+  quantityAvailable: number;
+  isActive: boolean;
+  categoryName: string;
+}
+
+export interface CreateProductRequest {
+  name: string;
+  description: string | null;
+  price: number;
+  initialStock: number;
+  categoryId: number;
+}
+
+export interface UpdateProductRequest {
+  name: string;
+  description: string | null;
+  price: number;
+  isActive: boolean;
+  categoryId: number;
+}
+
+export interface ProductQueryParams {
+  categoryId?: number;
+  isActive?: boolean;
+  search?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface CategoryResponse {
+  id: number;
+  name: string;
+  description: string | null;
+  createdAt: string;
+  productCount: number;
+}
+
+export interface CreateCategoryRequest {
+  name: string;
+  description: string | null;
+}
+
+export interface UpdateCategoryRequest {
+  name: string;
+  description: string | null;
+}
+
+export interface CategoryQueryParams {
+  search?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface StockResponse {
+  productId: number;
+  productName: string;
+  quantityAvailable: number;
+  quantityReserved: number;
+  quantityTotal: number;
+  updatedAt: string;
+}
+
+export interface UpdateStockRequest {
+  quantity: number;
+}
+
+export interface StockOperationRequest {
+  quantity: number;
 }
+
+const PRODUCTS = `${config.apiPrefix}/products`;
+const CATEGORIES = `${config.apiPrefix}/categories`;
+
+export const catalogApi = {
+  async getProducts(params: ProductQueryParams = {}) {
+    const response = await api.get<ProductListResponse[]>(PRODUCTS, { params });
+    return toPaginatedResponse(response);
+  },
+  async getProduct(id: number) {
+    const { data } = await api.get<ProductResponse>(`${PRODUCTS}/${id}`);
+    return data;
+  },
+  async createProduct(request: CreateProductRequest) {
+    const { data } = await api.post<ProductResponse>(PRODUCTS, request);
+    return data;
+  },
+  async updateProduct(id: number, request: UpdateProductRequest) {
+    const { data } = await api.put<ProductResponse>(`${PRODUCTS}/${id}`, request);
+    return data;
+  },
+  async deleteProduct(id: number) {
+    await api.delete(`${PRODUCTS}/${id}`);
+  },
+
+  async getStock(productId: number) {
+    const { data } = await api.get<StockResponse>(`${PRODUCTS}/${productId}/stock`);
+    return data;
+  },
+  async updateStock(productId: number, request: UpdateStockRequest) {
+    const { data } = await api.patch<StockResponse>(
+      `${PRODUCTS}/${productId}/stock`,
+      request
+    );
+    return data;
+  },
+  async reserveStock(productId: number, request: StockOperationRequest) {
+    const { data } = await api.post<StockResponse>(
+      `${PRODUCTS}/${productId}/stock/reserve`,
+      request
+    );
+    return data;
+  },
+  async releaseStock(productId: number, request: StockOperationRequest) {
+    const { data } = await api.post<StockResponse>(
+      `${PRODUCTS}/${productId}/stock/release`,
+      request
+    );
+    return data;
+  },
+
+  async getCategories(params: CategoryQueryParams = {}) {
+    const response = await api.get<CategoryResponse[]>(CATEGORIES, { params });
+    return toPaginatedResponse(response);
+  },
+  async getCategory(id: number) {
+    const { data } = await api.get<CategoryResponse>(`${CATEGORIES}/${id}`);
+    return data;
+  },
+  async createCategory(request: CreateCategoryRequest) {
+    const { data } = await api.post<CategoryResponse>(CATEGORIES, request);
+    return data;
+  },
+  async updateCategory(id: number, request: UpdateCategoryRequest) {
+    const { data } = await api.put<CategoryResponse>(`${CATEGORIES}/${id}`, request);
+    return data;
+  },
+  async deleteCategory(id: number) {
+    await api.delete(`${CATEGORIES}/${id}`);
+  },
+};
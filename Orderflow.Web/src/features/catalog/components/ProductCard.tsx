@@ -0,0 +1,107 @@
+import { Link } from "react-router-dom";
+import { formatCurrency } from "../../../lib/format";
+import { useCart } from "../../cart/useCart";
+import type { ProductListResponse } from "../catalogApi";
+import { StockBadge } from "./StockBadge";
+
+interface ProductCardProps {
+  product: ProductListResponse;
+  index?: number;
+}
+
+export function ProductCard({ product, index = 0 }: ProductCardProps) {
+  const { addItem, getQuantity, openCart } = useCart();
+  const isAtCartLimit = getQuantity(product.id) >= product.quantityAvailable;
+
+  const handleAddToCart = () => {
+    addItem({
+      productId: product.id,
+      name: product.name,
+      price: product.price,
+      quantityAvailable: product.quantityAvailable,
+    });
+    openCart();
+  };
+
+  return (
+    <div
+      className="card hover:shadow-xl transition-all duration-300 hover:-translate-y-1 group animate-scale-in"
+      style={{ animationDelay: `${index * 50}ms` }}
+    >
+      {/* Product Image */}
+      <Link
+        to={`/products/${product.id}`}
+        className="block relative h-48 bg-gradient-to-br from-primary-100 to-blue-100 overflow-hidden"
+      >
+        <div className="flex items-center justify-center h-full">
+          <svg
+            className="w-20 h-20 text-primary-300"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={1.5}
+              d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4"
+            />
+          </svg>
+        </div>
+        <div className="absolute top-2 right-2">
+          <span className="badge bg-white/90 text-primary-700 font-semibold">
+            {product.categoryName}
+          </span>
+        </div>
+      </Link>
+
+      {/* Product Info */}
+      <div className="p-5">
+        <h3 className="text-lg font-bold text-gray-900 mb-4 line-clamp-2 group-hover:text-primary-600 transition-colors">
+          <Link to={`/products/${product.id}`}>{product.name}</Link>
+        </h3>
+
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <span className="text-2xl font-bold text-primary-600">
+              {formatCurrency(product.price)}
+            </span>
+          </div>
+          <StockBadge stock={product.quantityAvailable} />
+        </div>
+
+        <button
+          onClick={handleAddToCart}
+          disabled={
+            product.quantityAvailable === 0 ||
+            isAtCartLimit
+          }
+          className="btn-primary btn-md w-full"
+        >
+          {product.quantityAvailable === 0 ? (
+            "Agotado"
+          ) : isAtCartLimit ? (
+            "Máximo en el carrito"
+          ) : (
+            <>
+              <svg
+                className="w-5 h-5 mr-2"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z"
+                />
+              </svg>
+              Agregar al carrito
+            </>
+          )}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { LOW_STOCK_THRESHOLD } from "../stock";
+
+export function StockBadge({ stock }: { stock: number }) {
+  if (stock === 0) {
+    return <span className="badge bg-red-100 text-red-800">Sin stock</span>;
+  }
+  if (stock < LOW_STOCK_THRESHOLD) {
+    return (
+      <span className="badge bg-yellow-100 text-yellow-800">
+        Stock bajo: {stock}
+      </span>
+    );
+  }
+  return (
+    <span className="badge bg-green-100 text-green-800">
+      En stock: {stock}
+    </span>
+  );
+}
@@ -0,0 +1,124 @@
+import axios from "axios";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import { Pagination } from "../../../app/ui/Pagination";
+import { getApiErrorMessage } from "../../../lib/api";
+import { ProductCard } from "../components/ProductCard";
+import { useCategory, useProducts } from "../queries";
+
+const PAGE_SIZE = 12;
+
+export function CategoryPage() {
+  const { id } = useParams();
+  const categoryId = Number(id);
+  const isValidId = Number.isInteger(categoryId) && categoryId > 0;
+
+  const [searchParams, setSearchParams] = useSearchParams();
+  const page = Math.max(Number(searchParams.get("page")) || 1, 1);
+
+  const {
+    data: category,
+    isPending: categoryLoading,
+    error: categoryError,
+  } = useCategory(categoryId, isValidId);
+  const {
+    data,
+    isPending: productsLoading,
+    isFetching,
+    error: productsError,
+  } = useProducts({ categoryId, isActive: true, page, pageSize: PAGE_SIZE }, isValidId);
+  const products = data?.data ?? [];
+  const pagination = data?.pagination;
+
+  const handlePageChange = (newPage: number) => {
+    setSearchParams(newPage > 1 ? { page: newPage.toString() } : {});
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  if (!isValidId || (axios.isAxiosError(categoryError) && categoryError.response?.status === 404)) {
+    return (
+      <div className="max-w-4xl mx-auto mt-8 space-y-4">
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          La categoría no existe
+        </div>
+        <Link to="/" className="text-primary-600 hover:text-primary-700 font-medium">
+          ← Volver al catálogo
+        </Link>
+      </div>
+    );
+  }
+
+  if (categoryLoading) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[500px] space-y-4">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+        <p className="text-gray-500 font-medium">Cargando categoría...</p>
+      </div>
+    );
+  }
+
+  if (categoryError || !category) {
+    return (
+      <div className="max-w-4xl mx-auto mt-8">
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {getApiErrorMessage(categoryError, "Error al cargar la categoría")}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="animate-fade-in">
+      <nav className="text-sm text-gray-500 mb-4">
+        <Link to="/" className="hover:text-primary-600">
+          Catálogo
+        </Link>
+        <span className="mx-2">/</span>
+        <span className="text-gray-900">{category.name}</span>
+      </nav>
+
+      <div className="bg-gradient-to-r from-primary-600 to-blue-600 rounded-xl shadow-xl p-8 mb-8 text-white">
+        <h1 className="text-4xl font-bold mb-2">{category.name}</h1>
+        {category.description && (
+          <p className="text-primary-100 text-lg">{category.description}</p>
+        )}
+        <p className="text-primary-200 text-sm mt-4">
+          {category.productCount} producto{category.productCount !== 1 ? "s" : ""}
+        </p>
+      </div>
+
+      {productsError ? (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {getApiErrorMessage(productsError, "Error al cargar los productos")}
+        </div>
+      ) : productsLoading ? (
+        <div className="text-center py-16 text-gray-500">Cargando productos...</div>
+      ) : products.length === 0 ? (
+        <div className="text-center py-16">
+          <p className="text-gray-600 text-lg font-medium mb-4">
+            No hay productos disponibles en esta categoría
+          </p>
+          <Link to="/" className="btn-outline btn-md">
+            Explorar el catálogo
+          </Link>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+          {products.map((product, index) => (
+            <ProductCard key={product.id} product={product} index={index} />
+          ))}
+        </div>
+      )}
+
+      {pagination && (
+        <div className="mt-8">
+          <Pagination
+            page={pagination.page}
+            totalPages={pagination.totalPages}
+            onPageChange={handlePageChange}
+            disabled={isFetching}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { useState } from "react";
+import axios from "axios";
+import { Link, useParams } from "react-router-dom";
+import { getApiErrorMessage } from "../../../lib/api";
+import { formatCurrency, formatDate } from "../../../lib/format";
+import { useAuth } from "../../auth/useAuth";
+import { useCart } from "../../cart/useCart";
+import { StockBadge } from "../components/StockBadge";
+import { useProduct, useProductStock } from "../queries";
+import { LOW_STOCK_THRESHOLD } from "../stock";
+
+export function ProductDetailPage() {
+  const { id } = useParams();
+  const productId = Number(id);
+  const isValidId = Number.isInteger(productId) && productId > 0;
+
+  const { hasRole } = useAuth();
+  const isAdmin = hasRole("Admin");
+  const { addItem, getQuantity, openCart } = useCart();
+
+  const { data: product, isPending: loading, error } = useProduct(productId, isValidId);
+  const { data: stock, isFetching: stockFetching } = useProductStock(productId, isValidId);
+  const [quantity, setQuantity] = useState(1);
+
+  if (!isValidId || (axios.isAxiosError(error) && error.response?.status === 404)) {
+    return (
+      <div className="max-w-4xl mx-auto mt-8 space-y-4">
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          El producto no existe
+        </div>
+        <Link to="/" className="text-primary-600 hover:text-primary-700 font-medium">
+          ← Volver al catálogo
+        </Link>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[500px] space-y-4">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+        <p className="text-gray-500 font-medium">Cargando producto...</p>
+      </div>
+    );
+  }
+
+  if (error || !product) {
+    return (
+      <div className="max-w-4xl mx-auto mt-8">
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {getApiErrorMessage(error, "Error al cargar el producto")}
+        </div>
+      </div>
+    );
+  }
+
+  // El endpoint de stock es más reciente que el dato incluido en el producto
+  const available = stock?.quantityAvailable ?? product.quantityAvailable;
+  const inCart = getQuantity(product.id);
+  const maxAddable = Math.max(available - inCart, 0);
+  const selectedQuantity = Math.min(Math.max(quantity, 1), Math.max(maxAddable, 1));
+  const canAdd = product.isActive && maxAddable > 0;
+
+  const handleAddToCart = () => {
+    addItem(
+      {
+        productId: product.id,
+        name: product.name,
+        price: product.price,
+        quantityAvailable: available,
+      },
+      selectedQuantity
+    );
+    setQuantity(1);
+    openCart();
+  };
+
+  return (
+    <div className="animate-fade-in">
+      <nav className="text-sm text-gray-500 mb-4">
+        <Link to="/" className="hover:text-primary-600">
+          Catálogo
+        </Link>
+        <span className="mx-2">/</span>
+        <Link to={`/categories/${product.categoryId}`} className="hover:text-primary-600">
+          {product.categoryName}
+        </Link>
+        <span className="mx-2">/</span>
+        <span className="text-gray-900">{product.name}</span>
+      </nav>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="card h-80 lg:h-[28rem] bg-gradient-to-br from-primary-100 to-blue-100 flex items-center justify-center">
+          <svg
+            className="w-32 h-32 text-primary-300"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={1.5}
+              d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4"
+            />
+          </svg>
+        </div>
+
+        <div className="space-y-6">
+          <div>
+            <span className="badge bg-primary-100 text-primary-700 mb-3">
+              {product.categoryName}
+            </span>
+            <h1 className="text-3xl font-bold text-gray-900">{product.name}</h1>
+          </div>
+
+          <div className="flex items-center gap-4">
+            <span className="text-3xl font-bold text-primary-600">
+              {formatCurrency(product.price)}
+            </span>
+            <StockBadge stock={available} />
+          </div>
+
+          <p className="text-gray-700 whitespace-pre-line">
+            {product.description || "Este producto no tiene descripción."}
+          </p>
+
+          {!product.isActive ? (
+            <div className="bg-gray-100 border border-gray-200 text-gray-700 px-4 py-3 rounded">
+              Este producto no está disponible actualmente.
+            </div>
+          ) : (
+            <div className="card p-5 space-y-4">
+              <div className="flex items-center gap-4">
+                <label htmlFor="quantity" className="label mb-0">
+                  Cantidad
+                </label>
+                <div className="flex items-center border border-gray-300 rounded-lg">
+                  <button
+                    onClick={() => setQuantity(selectedQuantity - 1)}
+                    disabled={!canAdd || selectedQuantity <= 1}
+                    className="px-3 py-2 text-gray-600 hover:bg-gray-50 disabled:opacity-40"
+                    aria-label="Disminuir cantidad"
+                  >
+                    −
+                  </button>
+                  <input
+                    id="quantity"
+                    type="number"
+                    min={1}
+                    max={maxAddable}
+                    value={selectedQuantity}
+                    onChange={(e) => setQuantity(Number(e.target.value) || 1)}
+                    disabled={!canAdd}
+                    className="w-16 text-center border-x border-gray-300 py-2 outline-none"
+                  />
+                  <button
+                    onClick={() => setQuantity(selectedQuantity + 1)}
+                    disabled={!canAdd || selectedQuantity >= maxAddable}
+                    className="px-3 py-2 text-gray-600 hover:bg-gray-50 disabled:opacity-40"
+                    aria-label="Aumentar cantidad"
+                  >
+                    +
+                  </button>
+                </div>
+              </div>
+
+              {inCart > 0 && (
+                <p className="text-sm text-gray-500">
+                  Ya tienes {inCart} en el carrito
+                </p>
+              )}
+
+              <button
+                onClick={handleAddToCart}
+                disabled={!canAdd}
+                className="btn-primary btn-lg w-full"
+              >
+                {available === 0
+                  ? "Agotado"
+                  : maxAddable === 0
+                    ? "Máximo en el carrito"
+                    : "Agregar al carrito"}
+              </button>
+            </div>
+          )}
+
+          {isAdmin && stock && (
+            <div className="card p-5">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold">Inventario</h2>
+                <span className="text-xs text-gray-400">
+                  {stockFetching ? "Actualizando..." : `Actualizado el ${formatDate(stock.updatedAt)}`}
+                </span>
+              </div>
+              <dl className="grid grid-cols-3 gap-4 text-center">
+                <div className="bg-green-50 rounded-lg p-3">
+                  <dt className="text-xs text-gray-500 uppercase">Disponible</dt>
+                  <dd className="text-2xl font-bold text-green-700">{stock.quantityAvailable}</dd>
+                </div>
+                <div className="bg-yellow-50 rounded-lg p-3">
+                  <dt className="text-xs text-gray-500 uppercase">Reservado</dt>
+                  <dd className="text-2xl font-bold text-yellow-700">{stock.quantityReserved}</dd>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-3">
+                  <dt className="text-xs text-gray-500 uppercase">Total</dt>
+                  <dd className="text-2xl font-bold text-gray-700">{stock.quantityTotal}</dd>
+                </div>
+              </dl>
+              {stock.quantityAvailable < LOW_STOCK_THRESHOLD && (
+                <p className="text-sm text-gray-600 mt-4">
+                  Se muestra como stock bajo porque hay menos de {LOW_STOCK_THRESHOLD} unidades
+                  disponibles
+                  {stock.quantityReserved > 0 &&
+                    ` (${stock.quantityReserved} reservadas por pedidos en curso)`}
+                  .
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
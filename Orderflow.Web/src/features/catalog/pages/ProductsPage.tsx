@@ -1,75 +1,83 @@
-import { useEffect, useState } from "react";
-import { api } from "../../../lib/api";
+import { useEffect, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Pagination } from "../../../app/ui/Pagination";
+import { getApiErrorMessage } from "../../../lib/api";
+import { ProductCard } from "../components/ProductCard";
+import { useAllCategories, useProducts } from "../queries";
 
-interface Product {
-  productId: string;
-  name: string;
-  description: string;
-  price: number;
-  stock: number;
-  category: string;
-  imageUrl?: string;
+const PAGE_SIZE = 12;
+const SEARCH_DEBOUNCE_MS = 300;
+
+function parsePositiveInt(value: string | null) {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
 }
 
 export function ProductsPage() {
-  const [products, setProducts] = useState<Product[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState("");
-  const [selectedCategory, setSelectedCategory] = useState<string>("all");
-  const [searchTerm, setSearchTerm] = useState("");
+  // Los filtros viven en la URL para poder compartir y guardar la vista
+  const [searchParams, setSearchParams] = useSearchParams();
+  const search = searchParams.get("q") ?? "";
+  const categoryId = parsePositiveInt(searchParams.get("categoryId"));
+  const page = parsePositiveInt(searchParams.get("page")) ?? 1;
 
-  useEffect(() => {
-    api
-      .get("/api/v1/products")
-      .then((response) => {
-        setProducts(response.data);
-        setLoading(false);
-      })
-      .catch((err) => {
-        setError(
-          err.response?.data?.message || "Error al cargar los productos"
-        );
-        setLoading(false);
-      });
-  }, []);
+  const {
+    data,
+    isPending: loading,
+    isFetching,
+    error,
+  } = useProducts({
+    isActive: true,
+    search: search.trim() || undefined,
+    categoryId,
+    page,
+    pageSize: PAGE_SIZE,
+  });
+  const products = data?.data ?? [];
+  const pagination = data?.pagination;
+  const { data: categories = [] } = useAllCategories();
+  const selectedCategory = categories.find((c) => c.id === categoryId);
 
-  const categories = [
-    "all",
-    ...new Set(products.map((p) => p.category).filter((c) => c != null)),
-  ];
+  // El input se actualiza al instante y la URL tras una pausa al escribir.
+  // Si la URL cambia por fuera (atrás/adelante), el input se resincroniza.
+  const [searchInput, setSearchInput] = useState(search);
+  const [syncedSearch, setSyncedSearch] = useState(search);
+  if (search !== syncedSearch) {
+    setSyncedSearch(search);
+    setSearchInput(search);
+  }
 
-  const filteredProducts = products.filter((product) => {
-    const matchesCategory =
-      selectedCategory === "all" || product.category === selectedCategory;
-    const matchesSearch = product.name
-      .toLowerCase()
-      .includes(searchTerm.toLowerCase());
-    return matchesCategory && matchesSearch;
-  });
+  const debounceRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  useEffect(() => () => clearTimeout(debounceRef.current), []);
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("es-AR", {
-      style: "currency",
-      currency: "ARS",
-    }).format(amount);
+  const updateParams = (
+    changes: Record<string, string | undefined>,
+    options?: { replace?: boolean }
+  ) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      for (const [key, value] of Object.entries(changes)) {
+        if (value) next.set(key, value);
+        else next.delete(key);
+      }
+      return next;
+    }, options);
   };
 
-  const getStockBadge = (stock: number) => {
-    if (stock === 0) {
-      return <span className="badge bg-red-100 text-red-800">Sin stock</span>;
-    }
-    if (stock < 10) {
-      return (
-        <span className="badge bg-yellow-100 text-yellow-800">
-          Stock bajo: {stock}
-        </span>
-      );
-    }
-    return (
-      <span className="badge bg-green-100 text-green-800">
-        En stock: {stock}
-      </span>
-    );
+  const handleSearchChange = (value: string) => {
+    setSearchInput(value);
+    clearTimeout(debounceRef.current);
+    debounceRef.current = setTimeout(() => {
+      updateParams({ q: value || undefined, page: undefined }, { replace: true });
+    }, SEARCH_DEBOUNCE_MS);
+  };
+
+  const handleCategoryChange = (id: number | undefined) => {
+    updateParams({ categoryId: id?.toString(), page: undefined });
+  };
+
+  const handlePageChange = (newPage: number) => {
+    updateParams({ page: newPage > 1 ? newPage.toString() : undefined });
+    window.scrollTo({ top: 0, behavior: "smooth" });
   };
 
   if (loading) {
@@ -97,7 +105,7 @@ export function ProductsPage() {
                 clipRule="evenodd"
               />
             </svg>
-            <span>{error}</span>
+            <span>{getApiErrorMessage(error, "Error al cargar los productos")}</span>
           </div>
         </div>
       </div>
@@ -121,8 +129,8 @@ export function ProductsPage() {
             <div className="relative">
               <input
                 type="text"
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
+                value={searchInput}
+                onChange={(e) => handleSearchChange(e.target.value)}
                 placeholder="Buscar productos..."
                 className="input pl-10"
               />
@@ -142,30 +150,67 @@ export function ProductsPage() {
             </div>
           </div>
           <div className="flex gap-2 overflow-x-auto">
+            <button
+              onClick={() => handleCategoryChange(undefined)}
+              className={`px-4 py-2 rounded-lg font-medium whitespace-nowrap transition-all duration-200 ${
+                categoryId === undefined
+                  ? "bg-primary-600 text-white shadow-lg"
+                  : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+              }`}
+            >
+              Todos
+            </button>
             {categories.map((category) => (
               <button
-                key={category}
-                onClick={() => setSelectedCategory(category)}
+                key={category.id}
+                onClick={() => handleCategoryChange(category.id)}
                 className={`px-4 py-2 rounded-lg font-medium whitespace-nowrap transition-all duration-200 ${
-                  selectedCategory === category
+                  categoryId === category.id
                     ? "bg-primary-600 text-white shadow-lg"
                     : "bg-gray-100 text-gray-700 hover:bg-gray-200"
                 }`}
               >
-                {category === "all"
-                  ? "Todos"
-                  : category.charAt(0).toUpperCase() + category.slice(1)}
+                {category.name}
+                <span
+                  className={`ml-2 text-xs ${
+                    categoryId === category.id ? "text-primary-100" : "text-gray-400"
+                  }`}
+                >
+                  {category.productCount}
+                </span>
               </button>
             ))}
           </div>
         </div>
-        <div className="mt-4 text-sm text-gray-600">
-          Mostrando {filteredProducts.length} de {products.length} productos
+        {selectedCategory && (
+          <div className="mt-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 bg-primary-50 rounded-lg px-4 py-3">
+            <p className="text-sm text-primary-800">
+              {selectedCategory.description || selectedCategory.name}
+            </p>
+            <Link
+              to={`/categories/${selectedCategory.id}`}
+              className="text-sm font-medium text-primary-700 hover:text-primary-800 whitespace-nowrap"
+            >
+              Ver categoría →
+            </Link>
+          </div>
+        )}
+        <div className="mt-4 text-sm text-gray-600 flex items-center gap-2">
+          {pagination && pagination.totalCount > 0 ? (
+            <span>
+              Mostrando {(pagination.page - 1) * pagination.pageSize + 1}–
+              {(pagination.page - 1) * pagination.pageSize + products.length} de{" "}
+              {pagination.totalCount} productos
+            </span>
+          ) : (
+            <span>Sin resultados</span>
+          )}
+          {isFetching && <span className="text-gray-400">Actualizando...</span>}
         </div>
       </div>
 
       {/* Products Grid */}
-      {filteredProducts.length === 0 ? (
+      {products.length === 0 ? (
         <div className="text-center py-16">
           <svg
             className="mx-auto h-16 w-16 text-gray-400 mb-4"
@@ -186,103 +231,31 @@ export function ProductsPage() {
           <p className="text-gray-500">
             Intenta ajustar tus filtros o búsqueda
           </p>
+          {page > 1 && (
+            <button
+              onClick={() => handlePageChange(1)}
+              className="btn-outline btn-md mt-4"
+            >
+              Volver a la primera página
+            </button>
+          )}
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-          {filteredProducts.map((product, index) => (
-            <div
-              key={product.productId}
-              className="card hover:shadow-xl transition-all duration-300 hover:-translate-y-1 group animate-scale-in"
-              style={{ animationDelay: `${index * 50}ms` }}
-            >
-              {/* Product Image */}
-              <div className="relative h-48 bg-gradient-to-br from-primary-100 to-blue-100 overflow-hidden">
-                {product.imageUrl ? (
-                  <img
-                    src={product.imageUrl}
-                    alt={product.name}
-                    className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-300"
-                  />
-                ) : (
-                  <div className="flex items-center justify-center h-full">
-                    <svg
-                      className="w-20 h-20 text-primary-300"
-                      fill="none"
-                      stroke="currentColor"
-                      viewBox="0 0 24 24"
-                    >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={1.5}
-                        d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4"
-                      />
-                    </svg>
-                  </div>
-                )}
-                <div className="absolute top-2 right-2">
-                  <span className="badge bg-white/90 text-primary-700 font-semibold">
-                    {product.category}
-                  </span>
-                </div>
-              </div>
-
-              {/* Product Info */}
-              <div className="p-5">
-                <h3 className="text-lg font-bold text-gray-900 mb-2 line-clamp-2 group-hover:text-primary-600 transition-colors">
-                  {product.name}
-                </h3>
-                <p className="text-gray-600 text-sm mb-4 line-clamp-2">
-                  {product.description}
-                </p>
-
-                <div className="flex items-center justify-between mb-4">
-                  <div>
-                    <span className="text-2xl font-bold text-primary-600">
-                      {formatCurrency(product.price)}
-                    </span>
-                  </div>
-                  {getStockBadge(product.stock)}
-                </div>
-
-                <button
-                  disabled={product.stock === 0}
-                  className="btn-primary btn-md w-full"
-                >
-                  {product.stock === 0 ? (
-                    "Agotado"
-                  ) : (
-                    <>
-                      <svg
-                        className="w-5 h-5 mr-2"
-                        fill="none"
-                        stroke="currentColor"
-                        viewBox="0 0 24 24"
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z"
-                        />
-                      </svg>
-                      Agregar al carrito
-                    </>
-                  )}
-                </button>
-              </div>
-            </div>
+          {products.map((product, index) => (
+            <ProductCard key={product.id} product={product} index={index} />
           ))}
         </div>
       )}
 
-      {/* Product count footer */}
-      {filteredProducts.length > 0 && (
-        <div className="mt-8 text-center text-gray-500">
-          <p>
-            Mostrando {filteredProducts.length} producto
-            {filteredProducts.length !== 1 ? "s" : ""}
-          </p>
+      {pagination && (
+        <div className="mt-8">
+          <Pagination
+            page={pagination.page}
+            totalPages={pagination.totalPages}
+            onPageChange={handlePageChange}
+            disabled={isFetching}
+          />
         </div>
       )}
     </div>
@@ -0,0 +1,302 @@
+import {
+  keepPreviousData,
+  useMutation,
+  useQueries,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { mapWithConcurrency } from "../../lib/concurrency";
+import { queryKeys } from "../../lib/queryKeys";
+import {
+  catalogApi,
+  type CategoryQueryParams,
+  type CategoryResponse,
+  type CreateCategoryRequest,
+  type CreateProductRequest,
+  type ProductQueryParams,
+  type StockResponse,
+  type UpdateCategoryRequest,
+  type UpdateProductRequest,
+} from "./catalogApi";
+
+export function useProducts(params: ProductQueryParams, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.products.list(params),
+    queryFn: () => catalogApi.getProducts(params),
+    enabled,
+    // Mantener la página anterior visible mientras carga la siguiente
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useProduct(id: number, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.products.detail(id),
+    queryFn: () => catalogApi.getProduct(id),
+    enabled,
+  });
+}
+
+// El stock cambia con los pedidos de otros clientes, así que se refresca periódicamente
+export function useProductStock(id: number, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.products.stock(id),
+    queryFn: () => catalogApi.getStock(id),
+    enabled,
+    staleTime: 0,
+    refetchInterval: 15_000,
+  });
+}
+
+// No hay endpoint de stock en lote: una consulta por producto de la página actual
+export function useProductStocks(productIds: number[]) {
+  return useQueries({
+    queries: productIds.map((id) => ({
+      queryKey: queryKeys.products.stock(id),
+      queryFn: () => catalogApi.getStock(id),
+    })),
+  });
+}
+
+export function useCategories(params: CategoryQueryParams = {}) {
+  return useQuery({
+    queryKey: queryKeys.categories.list(params),
+    queryFn: () => catalogApi.getCategories(params),
+  });
+}
+
+// Máximo que acepta GET /categories por página
+const CATEGORIES_MAX_PAGE_SIZE = 100;
+
+// Todas las categorías, recorriendo las páginas (selectores, filtros e importación)
+export function useAllCategories() {
+  return useQuery({
+    queryKey: queryKeys.categories.everything(),
+    queryFn: async () => {
+      const categories: CategoryResponse[] = [];
+      let page = 1;
+      let totalPages = 1;
+      do {
+        const result = await catalogApi.getCategories({
+          page,
+          pageSize: CATEGORIES_MAX_PAGE_SIZE,
+        });
+        categories.push(...result.data);
+        totalPages = result.pagination.totalPages;
+        page++;
+      } while (page <= totalPages);
+      return categories;
+    },
+  });
+}
+
+export function useCategory(id: number, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.categories.detail(id),
+    queryFn: () => catalogApi.getCategory(id),
+    enabled,
+  });
+}
+
+export function useCreateProduct() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (request: CreateProductRequest) => catalogApi.createProduct(request),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.products.all });
+      // productCount de la categoría
+      queryClient.invalidateQueries({ queryKey: queryKeys.categories.all });
+    },
+  });
+}
+
+export function useUpdateProduct() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, request }: { id: number; request: UpdateProductRequest }) =>
+      catalogApi.updateProduct(id, request),
+    onSuccess: (product) => {
+      queryClient.setQueryData(queryKeys.products.detail(product.id), product);
+      queryClient.invalidateQueries({ queryKey: queryKeys.products.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.categories.all });
+    },
+  });
+}
+
+// El listado no incluye descripción ni categoryId, y el PUT necesita el producto completo
+export function useSetProductActive() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      const product = await catalogApi.getProduct(id);
+      return catalogApi.updateProduct(id, {
+        name: product.name,
+        description: product.description,
+        price: product.price,
+        categoryId: product.categoryId,
+        isActive,
+      });
+    },
+    onSuccess: (product) => {
+      queryClient.setQueryData(queryKeys.products.detail(product.id), product);
+      queryClient.invalidateQueries({ queryKey: queryKeys.products.all });
+    },
+  });
+}
+
+export function useDeleteProduct() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: number) => catalogApi.deleteProduct(id),
+    onSuccess: (_data, id) => {
+      queryClient.removeQueries({ queryKey: queryKeys.products.detail(id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.products.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.categories.all });
+    },
+  });
+}
+
+export function useCreateCategory() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (request: CreateCategoryRequest) => catalogApi.createCategory(request),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.categories.all });
+    },
+  });
+}
+
+export function useUpdateCategory() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, request }: { id: number; request: UpdateCategoryRequest }) =>
+      catalogApi.updateCategory(id, request),
+    onSuccess: (category) => {
+      queryClient.setQueryData(queryKeys.categories.detail(category.id), category);
+      queryClient.invalidateQueries({ queryKey: queryKeys.categories.all });
+      // Los productos muestran el nombre de su categoría
+      queryClient.invalidateQueries({ queryKey: queryKeys.products.all });
+    },
+  });
+}
+
+export function useDeleteCategory() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: number) => catalogApi.deleteCategory(id),
+    onSuccess: (_data, id) => {
+      queryClient.removeQueries({ queryKey: queryKeys.categories.detail(id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.categories.all });
+    },
+  });
+}
+
+function useStockCacheUpdate() {
+  const queryClient = useQueryClient();
+  return (stock: StockResponse) => {
+    queryClient.setQueryData(queryKeys.products.stock(stock.productId), stock);
+    // El listado y el detalle incluyen quantityAvailable
+    queryClient.invalidateQueries({
+      queryKey: queryKeys.products.all,
+      predicate: (query) => !query.queryKey.includes("stock"),
+    });
+  };
+}
+
+export function useUpdateStock() {
+  const updateCache = useStockCacheUpdate();
+  return useMutation({
+    mutationFn: ({ productId, quantity }: { productId: number; quantity: number }) =>
+      catalogApi.updateStock(productId, { quantity }),
+    onSuccess: updateCache,
+  });
+}
+
+export type StockOperation = "reserve" | "release";
+
+export function useStockOperation() {
+  const updateCache = useStockCacheUpdate();
+  return useMutation({
+    mutationFn: ({
+      productId,
+      operation,
+      quantity,
+    }: {
+      productId: number;
+      operation: StockOperation;
+      quantity: number;
+    }) =>
+      operation === "reserve"
+        ? catalogApi.reserveStock(productId, { quantity })
+        : catalogApi.releaseStock(productId, { quantity }),
+    onSuccess: updateCache,
+  });
+}
+
+export interface BulkStockResult {
+  productId: number;
+  ok: boolean;
+  error?: unknown;
+}
+
+// Ajuste tras un recuento: se aplica producto a producto y se informa de cada fallo
+export function useBulkUpdateStock() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (changes: { productId: number; quantity: number }[]) => {
+      const results: BulkStockResult[] = [];
+      for (const { productId, quantity } of changes) {
+        try {
+          const stock = await catalogApi.updateStock(productId, { quantity });
+          queryClient.setQueryData(queryKeys.products.stock(productId), stock);
+          results.push({ productId, ok: true });
+        } catch (error) {
+          results.push({ productId, ok: false, error });
+        }
+      }
+      return results;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.products.all });
+    },
+  });
+}
+
+export interface ImportProductResult {
+  request: CreateProductRequest;
+  ok: boolean;
+  error?: unknown;
+}
+
+const IMPORT_CONCURRENCY = 4;
+
+// Alta masiva desde CSV: cada fila es un POST independiente y se informa de cada fallo
+export function useImportProducts() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      requests,
+      onProgress,
+    }: {
+      requests: CreateProductRequest[];
+      onProgress?: (done: number) => void;
+    }) => {
+      let done = 0;
+      return mapWithConcurrency(requests, IMPORT_CONCURRENCY, async (request) => {
+        let result: ImportProductResult;
+        try {
+          await catalogApi.createProduct(request);
+          result = { request, ok: true };
+        } catch (error) {
+          result = { request, ok: false, error };
+        }
+        onProgress?.(++done);
+        return result;
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.products.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.categories.all });
+    },
+  });
+}
@@ -0,0 +1,2 @@
+// Por debajo de este stock disponible un producto se marca como "Stock bajo"
+export const LOW_STOCK_THRESHOLD = 10;
@@ -0,0 +1,67 @@
+import { useState } from "react";
+import { Modal } from "../../../app/ui/Modal";
+
+const REASON_MAX_LENGTH = 500;
+
+interface CancelOrderDialogProps {
+  orderId: number | null;
+  onClose: () => void;
+  onConfirm: (orderId: number, reason: string | null) => void;
+}
+
+export function CancelOrderDialog({ orderId, onClose, onConfirm }: CancelOrderDialogProps) {
+  const [reason, setReason] = useState("");
+
+  const handleClose = () => {
+    setReason("");
+    onClose();
+  };
+
+  const handleConfirm = () => {
+    if (orderId === null) return;
+    onConfirm(orderId, reason.trim() || null);
+    setReason("");
+  };
+
+  return (
+    <Modal
+      open={orderId !== null}
+      title={`Cancelar pedido #${orderId ?? ""}`}
+      onClose={handleClose}
+      size="sm"
+      footer={
+        <>
+          <button onClick={handleClose} className="btn-outline btn-sm">
+            Volver
+          </button>
+          <button
+            onClick={handleConfirm}
+            className="btn btn-sm bg-red-600 text-white hover:bg-red-700"
+          >
+            Cancelar pedido
+          </button>
+        </>
+      }
+    >
+      <p className="text-sm text-gray-600 mb-4">
+        El pedido se cancelará y el stock reservado volverá a estar disponible. Esta
+        acción no se puede deshacer.
+      </p>
+      <label htmlFor="cancel-reason" className="label">
+        Motivo (opcional)
+      </label>
+      <textarea
+        id="cancel-reason"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        maxLength={REASON_MAX_LENGTH}
+        rows={3}
+        className="input"
+        placeholder="Cuéntanos por qué cancelas el pedido"
+      />
+      <p className="text-xs text-gray-400 text-right mt-1">
+        {reason.length}/{REASON_MAX_LENGTH}
+      </p>
+    </Modal>
+  );
+}
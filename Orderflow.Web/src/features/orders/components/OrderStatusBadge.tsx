@@ -0,0 +1,12 @@
+import type { OrderStatus } from "../ordersApi";
+import { getStatusBadgeClass, ORDER_STATUS_LABELS } from "../orderStatus";
+
+export function OrderStatusBadge({ status }: { status: OrderStatus }) {
+  return (
+    <span
+      className={`px-3 py-1 rounded-full text-xs font-medium ${getStatusBadgeClass(status)}`}
+    >
+      {ORDER_STATUS_LABELS[status] ?? status}
+    </span>
+  );
+}
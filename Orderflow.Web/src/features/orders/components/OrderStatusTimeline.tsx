@@ -0,0 +1,52 @@
+import type { OrderStatus } from "../ordersApi";
+import { ORDER_STATUS_FLOW, ORDER_STATUS_LABELS } from "../orderStatus";
+
+// Un pedido cancelado solo pudo pasar por Pending (y quizá Confirmed), pero la
+// API no guarda el historial, así que se muestra Pending → Cancelled
+export function OrderStatusTimeline({ status }: { status: OrderStatus }) {
+  const isCancelled = status === "Cancelled";
+  const steps: OrderStatus[] = isCancelled ? ["Pending", "Cancelled"] : ORDER_STATUS_FLOW;
+  const currentIndex = steps.indexOf(status);
+
+  return (
+    <ol className="flex items-start">
+      {steps.map((step, index) => {
+        const reached = index <= currentIndex;
+        const isCurrent = index === currentIndex;
+        const isCancelStep = step === "Cancelled";
+
+        const circleClass = isCancelStep
+          ? "bg-red-600 text-white"
+          : reached
+            ? "bg-primary-600 text-white"
+            : "bg-gray-200 text-gray-500";
+
+        return (
+          <li key={step} className="flex-1 flex flex-col items-center relative">
+            {index > 0 && (
+              <div
+                className={`absolute top-4 right-1/2 w-full h-0.5 -z-0 ${
+                  reached ? (isCancelStep ? "bg-red-300" : "bg-primary-600") : "bg-gray-200"
+                }`}
+              />
+            )}
+            <div
+              className={`relative z-10 w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold ${circleClass} ${
+                isCurrent ? "ring-4 ring-offset-1 " + (isCancelStep ? "ring-red-100" : "ring-primary-100") : ""
+              }`}
+            >
+              {isCancelStep ? "✕" : reached ? "✓" : index + 1}
+            </div>
+            <span
+              className={`mt-2 text-xs text-center ${
+                isCurrent ? "font-semibold text-gray-900" : "text-gray-500"
+              }`}
+            >
+              {ORDER_STATUS_LABELS[step]}
+            </span>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,100 @@
+import axios from "axios";
+import { getApiErrorMessage } from "../../lib/api";
+import type { CartItem } from "../cart/CartContext";
+
+export type CheckoutLineErrorKind =
+  | "notFound"
+  | "unavailable"
+  | "insufficientStock"
+  | "failed";
+
+export interface CheckoutLineError {
+  kind: CheckoutLineErrorKind;
+  message: string;
+}
+
+export interface CreateOrderErrors {
+  lineErrors: Record<number, CheckoutLineError>;
+  generalErrors: string[];
+}
+
+// Mensajes que devuelve OrderService.CreateAsync para cada línea del pedido
+const LINE_ERROR_PATTERNS: {
+  pattern: RegExp;
+  by: "id" | "name";
+  kind: CheckoutLineErrorKind;
+  message: string;
+}[] = [
+  {
+    pattern: /^Product (\d+) not found$/,
+    by: "id",
+    kind: "notFound",
+    message: "Este producto ya no existe en el catálogo.",
+  },
+  {
+    pattern: /^Could not fetch product (\d+)$/,
+    by: "id",
+    kind: "failed",
+    message: "No se pudo obtener la información del producto.",
+  },
+  {
+    pattern: /^Product (.+) is not available$/,
+    by: "name",
+    kind: "unavailable",
+    message: "Este producto ya no está disponible.",
+  },
+  {
+    pattern: /^Insufficient stock for (.+)$/,
+    by: "name",
+    kind: "insufficientStock",
+    message: "No hay stock suficiente para la cantidad solicitada.",
+  },
+  {
+    pattern: /^Failed to reserve stock for (.+?):/,
+    by: "name",
+    kind: "failed",
+    message: "No se pudo reservar stock para este producto.",
+  },
+];
+
+export function mapCreateOrderErrors(
+  messages: string[],
+  items: CartItem[]
+): CreateOrderErrors {
+  const result: CreateOrderErrors = { lineErrors: {}, generalErrors: [] };
+
+  for (const raw of messages) {
+    const message = raw.trim();
+    let matched = false;
+
+    for (const { pattern, by, kind, message: text } of LINE_ERROR_PATTERNS) {
+      const match = pattern.exec(message);
+      if (!match) continue;
+
+      const item =
+        by === "id"
+          ? items.find((i) => i.productId === Number(match[1]))
+          : items.find((i) => i.name === match[1]);
+
+      if (item) {
+        result.lineErrors[item.productId] = { kind, message: text };
+        matched = true;
+      }
+      break;
+    }
+
+    if (!matched) {
+      result.generalErrors.push(message);
+    }
+  }
+
+  return result;
+}
+
+// OrderService.CancelAsync responde 400 cuando el pedido ya avanzó de estado
+export function getCancelOrderErrorMessage(err: unknown, orderId: number) {
+  if (axios.isAxiosError(err) && err.response?.status === 400) {
+    return `El pedido #${orderId} ya no se puede cancelar porque su estado cambió mientras tanto.`;
+  }
+  return getApiErrorMessage(err, `No se pudo cancelar el pedido #${orderId}`);
+}
@@ -0,0 +1,45 @@
+import type { OrderStatus } from "./ordersApi";
+
+// Progresión normal de un pedido (OrderService.IsValidStatusTransition)
+export const ORDER_STATUS_FLOW: OrderStatus[] = [
+  "Pending",
+  "Confirmed",
+  "Processing",
+  "Shipped",
+  "Delivered",
+];
+
+// Siguiente estado de la progresión normal, o null si el pedido ya está cerrado.
+// La cancelación no se ofrece aquí: pasa por el endpoint de cancelar, que libera el stock.
+export function getNextOrderStatus(status: OrderStatus): OrderStatus | null {
+  const index = ORDER_STATUS_FLOW.indexOf(status);
+  return index >= 0 && index < ORDER_STATUS_FLOW.length - 1 ? ORDER_STATUS_FLOW[index + 1] : null;
+}
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  Pending: "Pendiente",
+  Confirmed: "Confirmado",
+  Processing: "En preparación",
+  Shipped: "Enviado",
+  Delivered: "Entregado",
+  Cancelled: "Cancelado",
+};
+
+export function getStatusBadgeClass(status: OrderStatus) {
+  switch (status) {
+    case "Pending":
+      return "bg-yellow-100 text-yellow-800";
+    case "Confirmed":
+      return "bg-blue-100 text-blue-800";
+    case "Processing":
+      return "bg-purple-100 text-purple-800";
+    case "Shipped":
+      return "bg-indigo-100 text-indigo-800";
+    case "Delivered":
+      return "bg-green-100 text-green-800";
+    case "Cancelled":
+      return "bg-red-100 text-red-800";
+    default:
+      return "bg-gray-100 text-gray-800";
+  }
+}
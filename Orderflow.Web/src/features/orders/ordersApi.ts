@@ -0,0 +1,81 @@
+import { api } from "../../lib/api";
+import { config } from "../../lib/config";
+
+// Tipos espejo de Orderflow.Orders.DTOs (los enums se serializan como string)
+
+export type OrderStatus =
+  | "Pending"
+  | "Confirmed"
+  | "Processing"
+  | "Shipped"
+  | "Delivered"
+  | "Cancelled";
+
+export interface OrderItemResponse {
+  id: number;
+  productId: number;
+  productName: string;
+  unitPrice: number;
+  quantity: number;
+  subtotal: number;
+}
+
+export interface OrderResponse {
+  id: number;
+  userId: string;
+  status: OrderStatus;
+  totalAmount: number;
+  shippingAddress: string | null;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string | null;
+  items: OrderItemResponse[];
+}
+
+export interface OrderListResponse {
+  id: number;
+  userId: string;
+  status: OrderStatus;
+  totalAmount: number;
+  itemCount: number;
+  createdAt: string;
+}
+
+export interface CreateOrderItemRequest {
+  productId: number;
+  quantity: number;
+}
+
+export interface CreateOrderRequest {
+  shippingAddress: string | null;
+  notes: string | null;
+  items: CreateOrderItemRequest[];
+}
+
+export interface UpdateOrderStatusRequest {
+  status: OrderStatus;
+}
+
+export interface CancelOrderRequest {
+  reason: string | null;
+}
+
+const ORDERS = `${config.apiPrefix}/orders`;
+
+export const ordersApi = {
+  async getMyOrders() {
+    const { data } = await api.get<OrderListResponse[]>(ORDERS);
+    return data;
+  },
+  async getOrder(id: number) {
+    const { data } = await api.get<OrderResponse>(`${ORDERS}/${id}`);
+    return data;
+  },
+  async createOrder(request: CreateOrderRequest) {
+    const { data } = await api.post<OrderResponse>(ORDERS, request);
+    return data;
+  },
+  async cancelOrder(id: number, request: CancelOrderRequest = { reason: null }) {
+    await api.post(`${ORDERS}/${id}/cancel`, request);
+  },
+};
@@ -0,0 +1,248 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { getApiErrorMessage, getApiErrorMessages } from "../../../lib/api";
+import { formatCurrency } from "../../../lib/format";
+import { catalogApi } from "../../catalog/catalogApi";
+import { useCart } from "../../cart/useCart";
+import { mapCreateOrderErrors, type CheckoutLineError } from "../orderErrors";
+import { useCreateOrder } from "../queries";
+
+const MAX_ADDRESS_LENGTH = 500;
+const MAX_NOTES_LENGTH = 1000;
+
+export function CheckoutPage() {
+  const navigate = useNavigate();
+  const { items, total, updateQuantity, removeItem, setAvailability, clear } =
+    useCart();
+
+  const [formData, setFormData] = useState({
+    shippingAddress: "",
+    notes: "",
+  });
+  const [lineErrors, setLineErrors] = useState<Record<number, CheckoutLineError>>({});
+  const [generalErrors, setGeneralErrors] = useState<string[]>([]);
+  const createOrder = useCreateOrder();
+  const submitting = createOrder.isPending;
+
+  const clearLineError = (productId: number) => {
+    setLineErrors((prev) => {
+      const next = { ...prev };
+      delete next[productId];
+      return next;
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLineErrors({});
+    setGeneralErrors([]);
+
+    if (!formData.shippingAddress.trim()) {
+      setGeneralErrors(["La dirección de envío es obligatoria"]);
+      return;
+    }
+
+    try {
+      const order = await createOrder.mutateAsync({
+        shippingAddress: formData.shippingAddress.trim(),
+        notes: formData.notes.trim() || null,
+        items: items.map((i) => ({ productId: i.productId, quantity: i.quantity })),
+      });
+
+      clear();
+      navigate(`/orders/${order.id}`, {
+        replace: true,
+        state: { message: `Pedido #${order.id} creado correctamente` },
+      });
+    } catch (err) {
+      const messages = getApiErrorMessages(err);
+      if (messages.length === 0) {
+        setGeneralErrors([getApiErrorMessage(err, "No se pudo crear el pedido")]);
+        return;
+      }
+
+      const mapped = mapCreateOrderErrors(messages, items);
+      setLineErrors(mapped.lineErrors);
+      setGeneralErrors(mapped.generalErrors);
+
+      // Refrescar el stock real de las líneas sin stock suficiente
+      const stockErrors = Object.entries(mapped.lineErrors).filter(
+        ([, error]) => error.kind === "insufficientStock"
+      );
+      await Promise.all(
+        stockErrors.map(async ([productId]) => {
+          try {
+            const stock = await catalogApi.getStock(Number(productId));
+            setLineErrors((prev) => ({
+              ...prev,
+              [productId]: {
+                kind: "insufficientStock",
+                message:
+                  stock.quantityAvailable > 0
+                    ? `Solo quedan ${stock.quantityAvailable} unidades disponibles. Ajustamos la cantidad.`
+                    : "Este producto se ha agotado.",
+              },
+            }));
+            setAvailability(Number(productId), stock.quantityAvailable);
+          } catch {
+            // Se mantiene el mensaje original
+          }
+        })
+      );
+    }
+  };
+
+  if (items.length === 0) {
+    return (
+      <div className="max-w-2xl mx-auto mt-8 text-center animate-fade-in">
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-8">
+          <p className="text-gray-600 mb-4">Tu carrito está vacío</p>
+          <Link to="/" className="btn-primary btn-md">
+            Explorar Productos
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto mt-8 animate-fade-in">
+      <h1 className="text-3xl font-bold mb-6">Finalizar Compra</h1>
+
+      {generalErrors.length > 0 && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6 animate-slide-up">
+          <ul className="list-disc list-inside space-y-1">
+            {generalErrors.map((message) => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Items */}
+        <div className="lg:col-span-2 card">
+          <div className="px-6 py-4 border-b">
+            <h2 className="text-lg font-semibold">Productos</h2>
+          </div>
+          <ul className="divide-y">
+            {items.map((item) => {
+              const lineError = lineErrors[item.productId];
+              return (
+                <li
+                  key={item.productId}
+                  className={`px-6 py-4 ${lineError ? "bg-red-50" : ""}`}
+                >
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900">{item.name}</p>
+                      <p className="text-sm text-gray-500">
+                        {formatCurrency(item.price)} c/u
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-4">
+                      <input
+                        type="number"
+                        min={1}
+                        max={item.quantityAvailable}
+                        value={item.quantity}
+                        onChange={(e) => {
+                          updateQuantity(item.productId, Number(e.target.value) || 1);
+                          clearLineError(item.productId);
+                        }}
+                        className="input w-20 text-center"
+                        aria-label={`Cantidad de ${item.name}`}
+                      />
+                      <span className="w-28 text-right font-semibold">
+                        {formatCurrency(item.price * item.quantity)}
+                      </span>
+                    </div>
+                  </div>
+
+                  {lineError && (
+                    <div className="mt-2 flex items-center justify-between text-sm text-red-700">
+                      <span>{lineError.message}</span>
+                      {lineError.kind !== "insufficientStock" && (
+                        <button
+                          type="button"
+                          onClick={() => {
+                            removeItem(item.productId);
+                            clearLineError(item.productId);
+                          }}
+                          className="font-medium underline hover:text-red-900"
+                        >
+                          Quitar del pedido
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+
+        {/* Shipping + summary */}
+        <div className="card p-6 space-y-5 h-fit">
+          <div>
+            <label htmlFor="shippingAddress" className="label">
+              Dirección de envío
+            </label>
+            <textarea
+              id="shippingAddress"
+              value={formData.shippingAddress}
+              onChange={(e) =>
+                setFormData({ ...formData, shippingAddress: e.target.value })
+              }
+              required
+              rows={3}
+              maxLength={MAX_ADDRESS_LENGTH}
+              className="input"
+              placeholder="Calle, número, ciudad, código postal"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="notes" className="label">
+              Notas (opcional)
+            </label>
+            <textarea
+              id="notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={3}
+              maxLength={MAX_NOTES_LENGTH}
+              className="input"
+              placeholder="Indicaciones para la entrega"
+            />
+          </div>
+
+          <div className="border-t pt-4 flex justify-between items-center">
+            <span className="text-lg font-bold">Total</span>
+            <span className="text-lg font-bold text-primary-600">
+              {formatCurrency(total)}
+            </span>
+          </div>
+          <p className="text-xs text-gray-500">
+            El importe final se calcula con los precios vigentes al confirmar el pedido.
+          </p>
+
+          <button
+            type="submit"
+            disabled={submitting}
+            className="btn-primary btn-lg w-full shadow-lg hover:shadow-xl"
+          >
+            {submitting ? (
+              <div className="flex items-center justify-center">
+                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
+                Creando pedido...
+              </div>
+            ) : (
+              "Confirmar Pedido"
+            )}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { useState } from "react";
+import axios from "axios";
+import { Link, useLocation, useParams } from "react-router-dom";
+import { getApiErrorMessage } from "../../../lib/api";
+import { formatCurrency, formatDate } from "../../../lib/format";
+import { CancelOrderDialog } from "../components/CancelOrderDialog";
+import { OrderStatusBadge } from "../components/OrderStatusBadge";
+import { OrderStatusTimeline } from "../components/OrderStatusTimeline";
+import { getCancelOrderErrorMessage } from "../orderErrors";
+import { useCancelOrder, useOrder } from "../queries";
+
+type Feedback = { type: "success" | "error"; message: string };
+
+function getLoadErrorMessage(err: unknown) {
+  if (axios.isAxiosError(err) && err.response?.status === 404) {
+    return "El pedido no existe";
+  }
+  if (axios.isAxiosError(err) && err.response?.status === 403) {
+    return "No tienes acceso a este pedido";
+  }
+  return getApiErrorMessage(err, "Error al cargar el pedido");
+}
+
+export function OrderDetailPage() {
+  const { id } = useParams();
+  const location = useLocation();
+  const successMessage: string | undefined = location.state?.message;
+  const orderId = Number(id);
+  const isValidId = Number.isInteger(orderId) && orderId > 0;
+
+  const { data: order, isPending: loading, error } = useOrder(orderId, isValidId);
+  const cancelOrder = useCancelOrder();
+  const [showCancelDialog, setShowCancelDialog] = useState(false);
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+
+  const handleConfirmCancel = (id: number, reason: string | null) => {
+    setShowCancelDialog(false);
+    setFeedback(null);
+    cancelOrder.mutate(
+      { orderId: id, reason },
+      {
+        onSuccess: () =>
+          setFeedback({ type: "success", message: "Pedido cancelado correctamente" }),
+        onError: (err) =>
+          setFeedback({ type: "error", message: getCancelOrderErrorMessage(err, id) }),
+      }
+    );
+  };
+
+  if (!isValidId) {
+    return (
+      <div className="max-w-4xl mx-auto mt-8">
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          Identificador de pedido no válido
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-[400px]">
+        <div className="text-gray-500">Cargando pedido...</div>
+      </div>
+    );
+  }
+
+  if (error || !order) {
+    return (
+      <div className="max-w-4xl mx-auto mt-8 space-y-4">
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error ? getLoadErrorMessage(error) : "El pedido no existe"}
+        </div>
+        <Link to="/orders" className="text-primary-600 hover:text-primary-700 font-medium">
+          ← Volver a mis pedidos
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto mt-8 animate-fade-in">
+      <Link
+        to="/orders"
+        className="text-sm text-primary-600 hover:text-primary-700 font-medium"
+      >
+        ← Volver a mis pedidos
+      </Link>
+
+      {successMessage && !feedback && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded mt-4 animate-slide-up">
+          {successMessage}
+        </div>
+      )}
+
+      {feedback && (
+        <div
+          className={`px-4 py-3 rounded mt-4 animate-slide-up border ${
+            feedback.type === "success"
+              ? "bg-green-50 border-green-200 text-green-700"
+              : "bg-red-50 border-red-200 text-red-700"
+          }`}
+        >
+          {feedback.message}
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mt-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold">Pedido #{order.id}</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Creado el {formatDate(order.createdAt)}
+            {order.updatedAt && <> · Actualizado el {formatDate(order.updatedAt)}</>}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <OrderStatusBadge status={order.status} />
+          {order.status === "Pending" && (
+            <button
+              onClick={() => setShowCancelDialog(true)}
+              className="bg-red-50 hover:bg-red-100 text-red-700 text-sm font-medium py-1.5 px-3 rounded-md transition"
+            >
+              Cancelar Pedido
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="card p-6 mb-6">
+        <OrderStatusTimeline status={order.status} />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 card">
+          <div className="px-6 py-4 border-b">
+            <h2 className="text-lg font-semibold">Productos</h2>
+          </div>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Producto
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Precio
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Cantidad
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Subtotal
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {order.items.map((item) => (
+                <tr key={item.id}>
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                    {item.productName}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-right text-gray-600">
+                    {formatCurrency(item.unitPrice)}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-right text-gray-600">
+                    {item.quantity}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-right font-semibold">
+                    {formatCurrency(item.subtotal)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="border-t">
+                <td colSpan={3} className="px-6 py-4 text-right text-lg font-bold">
+                  Total
+                </td>
+                <td className="px-6 py-4 text-right text-lg font-bold text-primary-600">
+                  {formatCurrency(order.totalAmount)}
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+
+        <div className="card p-6 space-y-5 h-fit">
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-1">
+              Dirección de envío
+            </h3>
+            <p className="text-gray-900 whitespace-pre-line">
+              {order.shippingAddress || "No especificada"}
+            </p>
+          </div>
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-1">Notas</h3>
+            <p className="text-gray-900 whitespace-pre-line">
+              {order.notes || "Sin notas"}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <CancelOrderDialog
+        orderId={showCancelDialog ? order.id : null}
+        onClose={() => setShowCancelDialog(false)}
+        onConfirm={handleConfirmCancel}
+      />
+    </div>
+  );
+}
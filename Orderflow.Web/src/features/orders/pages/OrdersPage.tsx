@@ -1,87 +1,34 @@
-import { useEffect, useState } from "react";
-import { api } from "../../../lib/api";
-import { tokenStorage } from "../../../lib/storage";
+import { useState } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { getApiErrorMessage } from "../../../lib/api";
+import { formatCurrency, formatDate } from "../../../lib/format";
+import { CancelOrderDialog } from "../components/CancelOrderDialog";
+import { OrderStatusBadge } from "../components/OrderStatusBadge";
+import { getCancelOrderErrorMessage } from "../orderErrors";
+import { useCancelOrder, useMyOrders } from "../queries";
 
-interface Order {
-  orderId: string;
-  userId: string;
-  status: string;
-  totalAmount: number;
-  createdAt: string;
-  items: OrderItem[];
-}
-
-interface OrderItem {
-  productId: string;
-  productName: string;
-  quantity: number;
-  unitPrice: number;
-}
+type Feedback = { type: "success" | "error"; message: string };
 
 export function OrdersPage() {
-  const [orders, setOrders] = useState<Order[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState("");
-
-  useEffect(() => {
-    const token = tokenStorage.get();
-    if (!token) {
-      setError("Debes iniciar sesión para ver tus pedidos");
-      setLoading(false);
-      return;
-    }
-
-    // Configurar el header de autorización
-    api.defaults.headers.common["Authorization"] = `Bearer ${token}`;
-
-    api
-      .get("/api/v1/orders")
-      .then((response) => {
-        setOrders(response.data);
-        setLoading(false);
-      })
-      .catch((err) => {
-        setError(
-          err.response?.data?.message || "Error al cargar los pedidos"
-        );
-        setLoading(false);
-      });
-  }, []);
-
-  const getStatusBadgeClass = (status: string) => {
-    switch (status.toLowerCase()) {
-      case "pending":
-        return "bg-yellow-100 text-yellow-800";
-      case "confirmed":
-        return "bg-blue-100 text-blue-800";
-      case "processing":
-        return "bg-purple-100 text-purple-800";
-      case "shipped":
-        return "bg-indigo-100 text-indigo-800";
-      case "delivered":
-        return "bg-green-100 text-green-800";
-      case "cancelled":
-        return "bg-red-100 text-red-800";
-      default:
-        return "bg-gray-100 text-gray-800";
-    }
-  };
-
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("es-AR", {
-      style: "currency",
-      currency: "ARS",
-    }).format(amount);
-  };
-
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString("es-AR", {
-      year: "numeric",
-      month: "long",
-      day: "numeric",
-      hour: "2-digit",
-      minute: "2-digit",
-    });
+  const location = useLocation();
+  const successMessage: string | undefined = location.state?.message;
+  const { data: orders = [], isPending: loading, error } = useMyOrders();
+  const cancelOrder = useCancelOrder();
+  const [cancelTargetId, setCancelTargetId] = useState<number | null>(null);
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+
+  const handleConfirmCancel = (orderId: number, reason: string | null) => {
+    setCancelTargetId(null);
+    setFeedback(null);
+    cancelOrder.mutate(
+      { orderId, reason },
+      {
+        onSuccess: () =>
+          setFeedback({ type: "success", message: `Pedido #${orderId} cancelado correctamente` }),
+        onError: (err) =>
+          setFeedback({ type: "error", message: getCancelOrderErrorMessage(err, orderId) }),
+      }
+    );
   };
 
   if (loading) {
@@ -96,7 +43,7 @@ export function OrdersPage() {
     return (
       <div className="max-w-4xl mx-auto mt-8">
         <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
-          {error}
+          {getApiErrorMessage(error, "Error al cargar los pedidos")}
         </div>
       </div>
     );
@@ -106,6 +53,24 @@ export function OrdersPage() {
     <div className="max-w-6xl mx-auto mt-8">
       <h1 className="text-3xl font-bold mb-6">Mis Pedidos</h1>
 
+      {successMessage && !feedback && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded mb-4 animate-slide-up">
+          {successMessage}
+        </div>
+      )}
+
+      {feedback && (
+        <div
+          className={`px-4 py-3 rounded mb-4 animate-slide-up border ${
+            feedback.type === "success"
+              ? "bg-green-50 border-green-200 text-green-700"
+              : "bg-red-50 border-red-200 text-red-700"
+          }`}
+        >
+          {feedback.message}
+        </div>
+      )}
+
       {orders.length === 0 ? (
         <div className="bg-gray-50 border border-gray-200 rounded-lg p-8 text-center">
           <p className="text-gray-600 mb-4">Aún no tienes pedidos</p>
@@ -120,46 +85,23 @@ export function OrdersPage() {
         <div className="space-y-4">
           {orders.map((order) => (
             <div
-              key={order.orderId}
+              key={order.id}
               className="bg-white border border-gray-200 rounded-lg shadow-sm p-6"
             >
               <div className="flex justify-between items-start mb-4">
                 <div>
                   <h2 className="text-lg font-semibold">
-                    Pedido #{order.orderId.substring(0, 8)}
+                    Pedido #{order.id}
                   </h2>
                   <p className="text-sm text-gray-500">
                     {formatDate(order.createdAt)}
                   </p>
                 </div>
-                <span
-                  className={`px-3 py-1 rounded-full text-xs font-medium ${getStatusBadgeClass(
-                    order.status
-                  )}`}
-                >
-                  {order.status}
-                </span>
+                <OrderStatusBadge status={order.status} />
               </div>
 
-              <div className="border-t border-gray-100 pt-4">
-                <h3 className="text-sm font-medium text-gray-700 mb-2">
-                  Productos:
-                </h3>
-                <ul className="space-y-2">
-                  {order.items.map((item, index) => (
-                    <li
-                      key={index}
-                      className="flex justify-between text-sm"
-                    >
-                      <span>
-                        {item.productName} x {item.quantity}
-                      </span>
-                      <span className="font-medium">
-                        {formatCurrency(item.unitPrice * item.quantity)}
-                      </span>
-                    </li>
-                  ))}
-                </ul>
+              <div className="border-t border-gray-100 pt-4 text-sm text-gray-700">
+                {order.itemCount} producto{order.itemCount !== 1 ? "s" : ""}
               </div>
 
               <div className="border-t border-gray-100 mt-4 pt-4 flex justify-between items-center">
@@ -169,15 +111,32 @@ export function OrdersPage() {
                 </span>
               </div>
 
-              {order.status.toLowerCase() === "pending" && (
-                <button className="mt-4 w-full bg-red-50 hover:bg-red-100 text-red-700 font-medium py-2 px-4 rounded-md transition">
-                  Cancelar Pedido
-                </button>
-              )}
+              <div className="mt-4 flex gap-3">
+                <Link
+                  to={`/orders/${order.id}`}
+                  className="flex-1 text-center bg-blue-50 hover:bg-blue-100 text-blue-700 font-medium py-2 px-4 rounded-md transition"
+                >
+                  Ver detalle
+                </Link>
+                {order.status === "Pending" && (
+                  <button
+                    onClick={() => setCancelTargetId(order.id)}
+                    className="flex-1 bg-red-50 hover:bg-red-100 text-red-700 font-medium py-2 px-4 rounded-md transition"
+                  >
+                    Cancelar Pedido
+                  </button>
+                )}
+              </div>
             </div>
           ))}
         </div>
       )}
+
+      <CancelOrderDialog
+        orderId={cancelTargetId}
+        onClose={() => setCancelTargetId(null)}
+        onConfirm={handleConfirmCancel}
+      />
     </div>
   );
 }
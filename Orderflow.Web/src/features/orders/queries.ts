@@ -0,0 +1,78 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "../../lib/queryKeys";
+import {
+  ordersApi,
+  type CreateOrderRequest,
+  type OrderListResponse,
+  type OrderResponse,
+} from "./ordersApi";
+
+export function useMyOrders() {
+  return useQuery({
+    queryKey: queryKeys.orders.mine(),
+    queryFn: ordersApi.getMyOrders,
+  });
+}
+
+export function useOrder(id: number, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.orders.detail(id),
+    queryFn: () => ordersApi.getOrder(id),
+    enabled,
+  });
+}
+
+export function useCreateOrder() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (request: CreateOrderRequest) => ordersApi.createOrder(request),
+    onSuccess: (order) => {
+      queryClient.setQueryData(queryKeys.orders.detail(order.id), order);
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+      // El pedido reserva stock
+      queryClient.invalidateQueries({ queryKey: queryKeys.products.all });
+    },
+  });
+}
+
+interface CancelOrderVariables {
+  orderId: number;
+  reason: string | null;
+}
+
+// Actualización optimista: se marca como cancelado en la caché y se revierte si falla
+export function useCancelOrder() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ orderId, reason }: CancelOrderVariables) =>
+      ordersApi.cancelOrder(orderId, { reason }),
+    onMutate: async ({ orderId }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.orders.all });
+
+      const previousList = queryClient.getQueryData<OrderListResponse[]>(
+        queryKeys.orders.mine()
+      );
+      const previousDetail = queryClient.getQueryData<OrderResponse>(
+        queryKeys.orders.detail(orderId)
+      );
+
+      queryClient.setQueryData<OrderListResponse[]>(queryKeys.orders.mine(), (old) =>
+        old?.map((o) => (o.id === orderId ? { ...o, status: "Cancelled" } : o))
+      );
+      queryClient.setQueryData<OrderResponse>(queryKeys.orders.detail(orderId), (old) =>
+        old ? { ...old, status: "Cancelled" } : old
+      );
+
+      return { previousList, previousDetail };
+    },
+    onError: (_err, { orderId }, context) => {
+      queryClient.setQueryData(queryKeys.orders.mine(), context?.previousList);
+      queryClient.setQueryData(queryKeys.orders.detail(orderId), context?.previousDetail);
+    },
+    onSettled: () => {
+      // Refresca el estado real (puede haber cambiado mientras tanto) y el stock liberado
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.products.all });
+    },
+  });
+}
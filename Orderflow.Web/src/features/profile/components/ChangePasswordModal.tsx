@@ -0,0 +1,274 @@
+import { useState } from "react";
+import { Modal } from "../../../app/ui/Modal";
+import { getApiErrorMessage, getApiErrorMessages, getApiFieldErrors } from "../../../lib/api";
+import { PASSWORD_RULES, validatePassword } from "../../admin/userValidation";
+import { isWrongCurrentPasswordError } from "../../auth/identityApi";
+import { useChangeMyPassword, useRevokeOtherSessions } from "../queries";
+
+const FORM_ID = "change-password-form";
+
+type Field = "currentPassword" | "newPassword" | "confirmNewPassword";
+type FormErrors = Partial<Record<Field, string>>;
+
+const STRENGTH_LEVELS = [
+  { label: "Muy débil", barClass: "bg-red-500", textClass: "text-red-600" },
+  { label: "Débil", barClass: "bg-red-500", textClass: "text-red-600" },
+  { label: "Aceptable", barClass: "bg-amber-500", textClass: "text-amber-600" },
+  { label: "Buena", barClass: "bg-amber-500", textClass: "text-amber-600" },
+  { label: "Casi lista", barClass: "bg-lime-500", textClass: "text-lime-600" },
+  { label: "Cumple la política", barClass: "bg-green-600", textClass: "text-green-600" },
+];
+
+// Un segmento por cada regla de ChangePasswordRequestValidator
+function PasswordStrengthMeter({ password }: { password: string }) {
+  const passed = PASSWORD_RULES.filter((rule) => rule.test(password)).length;
+  const level =
+    STRENGTH_LEVELS[Math.round((passed / PASSWORD_RULES.length) * (STRENGTH_LEVELS.length - 1))];
+
+  return (
+    <div className="mt-2">
+      <div className="flex gap-1" aria-hidden="true">
+        {PASSWORD_RULES.map((rule, i) => (
+          <div
+            key={rule.message}
+            className={`h-1.5 flex-1 rounded ${i < passed ? level.barClass : "bg-gray-200"}`}
+          />
+        ))}
+      </div>
+      {password && (
+        <p className={`text-xs mt-1 ${level.textClass}`}>Seguridad: {level.label}</p>
+      )}
+      <ul className="mt-2 grid grid-cols-2 gap-1 text-xs">
+        {PASSWORD_RULES.map((rule) => {
+          const ok = rule.test(password);
+          return (
+            <li key={rule.message} className={ok ? "text-green-600" : "text-gray-500"}>
+              {ok ? "✓" : "•"} {rule.message}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+// Los errores de Identity (400) llegan sin campo: se asignan por su texto
+function getFieldForMessage(message: string): Field | null {
+  const lower = message.toLowerCase();
+  if (lower.includes("current password") || lower.includes("incorrect password"))
+    return "currentPassword";
+  if (lower.includes("match")) return "confirmNewPassword";
+  if (lower.includes("password")) return "newPassword";
+  return null;
+}
+
+interface ChangePasswordModalProps {
+  onClose: () => void;
+}
+
+export function ChangePasswordModal({ onClose }: ChangePasswordModalProps) {
+  const changePassword = useChangeMyPassword();
+  const revokeSessions = useRevokeOtherSessions();
+  const saving = changePassword.isPending;
+
+  const [formData, setFormData] = useState({
+    currentPassword: "",
+    newPassword: "",
+    confirmNewPassword: "",
+  });
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [serverError, setServerError] = useState("");
+  const [changed, setChanged] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+    setErrors((prev) => ({ ...prev, [name]: undefined }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setServerError("");
+
+    const { currentPassword, newPassword, confirmNewPassword } = formData;
+    const result: FormErrors = {
+      currentPassword: currentPassword ? undefined : "La contraseña actual es obligatoria",
+      newPassword:
+        validatePassword(newPassword) ??
+        (newPassword === currentPassword
+          ? "La nueva contraseña debe ser distinta de la actual"
+          : undefined),
+      confirmNewPassword: !confirmNewPassword
+        ? "Confirma la nueva contraseña"
+        : confirmNewPassword !== newPassword
+          ? "Las contraseñas no coinciden"
+          : undefined,
+    };
+    setErrors(result);
+    if (Object.values(result).some(Boolean)) return;
+
+    try {
+      await changePassword.mutateAsync(formData);
+      setChanged(true);
+    } catch (err) {
+      // El resto de 401 los gestiona el interceptor global (cierra la sesión)
+      if (isWrongCurrentPasswordError(err)) {
+        setErrors({ currentPassword: "La contraseña actual no es correcta" });
+        return;
+      }
+
+      const fieldErrors: FormErrors = getApiFieldErrors(err);
+      const unmatched: string[] = [];
+      if (Object.keys(fieldErrors).length === 0) {
+        for (const message of getApiErrorMessages(err)) {
+          const field = getFieldForMessage(message);
+          if (!field) unmatched.push(message);
+          else
+            fieldErrors[field] = fieldErrors[field] ? `${fieldErrors[field]}, ${message}` : message;
+        }
+      }
+      setErrors(fieldErrors);
+      if (unmatched.length > 0 || Object.keys(fieldErrors).length === 0) {
+        setServerError(
+          unmatched.length > 0
+            ? unmatched.join(", ")
+            : getApiErrorMessage(err, "No se pudo cambiar la contraseña")
+        );
+      }
+    }
+  };
+
+  const fieldError = (field: Field) =>
+    errors[field] && <p className="text-sm text-red-600 mt-1">{errors[field]}</p>;
+
+  if (changed) {
+    const revoking = revokeSessions.isPending;
+    return (
+      <Modal
+        open
+        title="Contraseña actualizada"
+        onClose={() => !revoking && onClose()}
+        footer={
+          revokeSessions.isSuccess ? (
+            <button onClick={onClose} className="btn-primary btn-sm">
+              Cerrar
+            </button>
+          ) : (
+            <>
+              <button onClick={onClose} disabled={revoking} className="btn-outline btn-sm">
+                Mantener las demás sesiones
+              </button>
+              <button
+                onClick={() => revokeSessions.mutate()}
+                disabled={revoking}
+                className="btn btn-sm bg-red-600 text-white hover:bg-red-700"
+              >
+                {revoking ? "Cerrando sesiones..." : "Cerrar las demás sesiones"}
+              </button>
+            </>
+          )
+        }
+      >
+        <div className="space-y-3">
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded">
+            Tu contraseña se ha cambiado correctamente.
+          </div>
+          {revokeSessions.isSuccess ? (
+            <p className="text-sm text-gray-600">
+              Se ha cerrado la sesión en todos los demás dispositivos. Esta sesión sigue activa.
+            </p>
+          ) : (
+            <p className="text-sm text-gray-600">
+              Si crees que alguien más conocía tu contraseña, cierra la sesión en todos los demás
+              dispositivos. Esta sesión seguirá abierta.
+            </p>
+          )}
+          {revokeSessions.isError && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+              {getApiErrorMessage(revokeSessions.error, "No se pudieron cerrar las demás sesiones")}
+            </div>
+          )}
+        </div>
+      </Modal>
+    );
+  }
+
+  return (
+    <Modal
+      open
+      title="Cambiar contraseña"
+      onClose={onClose}
+      footer={
+        <>
+          <button onClick={onClose} disabled={saving} className="btn-outline btn-sm">
+            Cancelar
+          </button>
+          <button type="submit" form={FORM_ID} disabled={saving} className="btn-primary btn-sm">
+            {saving ? "Guardando..." : "Cambiar contraseña"}
+          </button>
+        </>
+      }
+    >
+      <form id={FORM_ID} onSubmit={handleSubmit} className="space-y-4" noValidate>
+        {serverError && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+            {serverError}
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="change-password-current" className="label">
+            Contraseña actual *
+          </label>
+          <input
+            id="change-password-current"
+            name="currentPassword"
+            type="password"
+            value={formData.currentPassword}
+            onChange={handleChange}
+            autoComplete="current-password"
+            className="input"
+            disabled={saving}
+            autoFocus
+          />
+          {fieldError("currentPassword")}
+        </div>
+
+        <div>
+          <label htmlFor="change-password-new" className="label">
+            Nueva contraseña *
+          </label>
+          <input
+            id="change-password-new"
+            name="newPassword"
+            type="password"
+            value={formData.newPassword}
+            onChange={handleChange}
+            autoComplete="new-password"
+            className="input"
+            disabled={saving}
+          />
+          {fieldError("newPassword")}
+          <PasswordStrengthMeter password={formData.newPassword} />
+        </div>
+
+        <div>
+          <label htmlFor="change-password-confirm" className="label">
+            Confirmar nueva contraseña *
+          </label>
+          <input
+            id="change-password-confirm"
+            name="confirmNewPassword"
+            type="password"
+            value={formData.confirmNewPassword}
+            onChange={handleChange}
+            autoComplete="new-password"
+            className="input"
+            disabled={saving}
+          />
+          {fieldError("confirmNewPassword")}
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -1,55 +1,102 @@
-import { useEffect, useState } from "react";
+import { useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { api } from "../../../lib/api";
-import { tokenStorage } from "../../../lib/storage";
-
-interface UserProfile {
-  userId: string;
-  email: string;
-  userName: string;
-  emailConfirmed: boolean;
-  phoneNumber: string | null;
-  roles: string[];
-}
+import { getApiErrorMessage, getApiErrorMessages, getApiFieldErrors } from "../../../lib/api";
+import {
+  MAX_USERNAME_LENGTH,
+  validatePhoneNumber,
+  validateUserName,
+} from "../../admin/userValidation";
+import { useAuth } from "../../auth/useAuth";
+import { ChangePasswordModal } from "../components/ChangePasswordModal";
+import { useMyProfile, useUpdateMyProfile } from "../queries";
+
+type Feedback = { type: "success" | "error"; message: string };
+type ProfileDraft = { userName: string; phoneNumber: string };
+type FormErrors = Partial<Record<keyof ProfileDraft, string>>;
 
 export function ProfilePage() {
   const navigate = useNavigate();
-  const [profile, setProfile] = useState<UserProfile | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState("");
-
-  useEffect(() => {
-    const token = tokenStorage.get();
-    if (!token) {
-      navigate("/login");
-      return;
-    }
+  const { logout } = useAuth();
+  // Los 401 los gestiona el interceptor global de api
+  const { data: profile, isPending: loading, error } = useMyProfile();
+  const updateProfile = useUpdateMyProfile();
+  const saving = updateProfile.isPending;
+
+  // null mientras no se está editando
+  const [draft, setDraft] = useState<ProfileDraft | null>(null);
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+  const [changingPassword, setChangingPassword] = useState(false);
 
-    // Configurar el header de autorización
-    api.defaults.headers.common["Authorization"] = `Bearer ${token}`;
-
-    api
-      .get("/api/v1/users/me")
-      .then((response) => {
-        setProfile(response.data);
-        setLoading(false);
-      })
-      .catch((err) => {
-        if (err.response?.status === 401) {
-          tokenStorage.clear();
-          navigate("/login");
-        } else {
-          setError(
-            err.response?.data?.message || "Error al cargar el perfil"
-          );
-          setLoading(false);
-        }
+  const isDirty =
+    !!draft &&
+    !!profile &&
+    (draft.userName.trim() !== profile.userName ||
+      draft.phoneNumber.trim() !== (profile.phoneNumber ?? ""));
+
+  const startEditing = () => {
+    if (!profile) return;
+    setDraft({ userName: profile.userName, phoneNumber: profile.phoneNumber ?? "" });
+    setErrors({});
+    setFeedback(null);
+  };
+
+  const cancelEditing = () => {
+    setDraft(null);
+    setErrors({});
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setDraft((prev) => prev && { ...prev, [name]: value });
+    setErrors((prev) => ({ ...prev, [name]: undefined }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || !isDirty) return;
+    setFeedback(null);
+
+    const values = {
+      userName: draft.userName.trim(),
+      phoneNumber: draft.phoneNumber.trim(),
+    };
+    const result: FormErrors = {
+      userName: validateUserName(values.userName),
+      phoneNumber: validatePhoneNumber(values.phoneNumber),
+    };
+    setErrors(result);
+    if (Object.values(result).some(Boolean)) return;
+
+    try {
+      await updateProfile.mutateAsync({
+        userName: values.userName,
+        phoneNumber: values.phoneNumber || null,
       });
-  }, [navigate]);
+      setDraft(null);
+      setFeedback({ type: "success", message: "Perfil actualizado correctamente" });
+    } catch (err) {
+      const fieldErrors: FormErrors = getApiFieldErrors(err);
+      // "Username is already taken" llega sin campo asociado
+      if (Object.keys(fieldErrors).length === 0) {
+        const taken = getApiErrorMessages(err).find((m) => m.toLowerCase().includes("username"));
+        if (taken) fieldErrors.userName = taken;
+      }
+      setErrors(fieldErrors);
+      if (Object.keys(fieldErrors).length === 0) {
+        setFeedback({
+          type: "error",
+          message: getApiErrorMessage(err, "No se pudo actualizar el perfil"),
+        });
+      }
+    }
+  };
+
+  const fieldError = (field: keyof ProfileDraft) =>
+    errors[field] && <p className="text-sm text-red-600 mt-1">{errors[field]}</p>;
 
   const handleLogout = () => {
-    tokenStorage.clear();
-    delete api.defaults.headers.common["Authorization"];
+    logout();
     navigate("/login");
   };
 
@@ -65,7 +112,7 @@ export function ProfilePage() {
     return (
       <div className="max-w-4xl mx-auto mt-8">
         <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
-          {error}
+          {getApiErrorMessage(error, "Error al cargar el perfil")}
         </div>
       </div>
     );
@@ -82,7 +129,19 @@ export function ProfilePage() {
           <h1 className="text-3xl font-bold text-white">Mi Perfil</h1>
         </div>
 
-        <div className="p-6">
+        <form onSubmit={handleSave} className="p-6" noValidate>
+          {feedback && (
+            <div
+              className={`px-4 py-3 rounded mb-6 animate-slide-up border ${
+                feedback.type === "success"
+                  ? "bg-green-50 border-green-200 text-green-700"
+                  : "bg-red-50 border-red-200 text-red-700"
+              }`}
+            >
+              {feedback.message}
+            </div>
+          )}
+
           <div className="space-y-6">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div>
@@ -104,19 +163,59 @@ export function ProfilePage() {
               </div>
 
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
+                <label
+                  htmlFor="profile-username"
+                  className="block text-sm font-medium text-gray-700 mb-2"
+                >
                   Nombre de Usuario
                 </label>
-                <span className="text-gray-900">{profile.userName}</span>
+                {draft ? (
+                  <>
+                    <input
+                      id="profile-username"
+                      name="userName"
+                      value={draft.userName}
+                      onChange={handleChange}
+                      maxLength={MAX_USERNAME_LENGTH}
+                      autoComplete="username"
+                      className="input"
+                      disabled={saving}
+                      autoFocus
+                    />
+                    {fieldError("userName")}
+                  </>
+                ) : (
+                  <span className="text-gray-900">{profile.userName}</span>
+                )}
               </div>
 
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
+                <label
+                  htmlFor="profile-phone"
+                  className="block text-sm font-medium text-gray-700 mb-2"
+                >
                   Teléfono
                 </label>
-                <span className="text-gray-900">
-                  {profile.phoneNumber || "No especificado"}
-                </span>
+                {draft ? (
+                  <>
+                    <input
+                      id="profile-phone"
+                      name="phoneNumber"
+                      type="tel"
+                      value={draft.phoneNumber}
+                      onChange={handleChange}
+                      placeholder="+5491112345678"
+                      autoComplete="tel"
+                      className="input"
+                      disabled={saving}
+                    />
+                    {fieldError("phoneNumber")}
+                  </>
+                ) : (
+                  <span className="text-gray-900">
+                    {profile.phoneNumber || "No especificado"}
+                  </span>
+                )}
               </div>
 
               <div>
@@ -146,24 +245,63 @@ export function ProfilePage() {
             </div>
 
             <div className="border-t border-gray-200 pt-6 mt-6">
-              <div className="flex gap-4">
-                <button className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-md transition">
-                  Editar Perfil
-                </button>
-                <button className="bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2 px-4 rounded-md transition">
-                  Cambiar Contraseña
-                </button>
-                <button
-                  onClick={handleLogout}
-                  className="ml-auto bg-red-50 hover:bg-red-100 text-red-700 font-medium py-2 px-4 rounded-md transition"
-                >
-                  Cerrar Sesión
-                </button>
-              </div>
+              {draft ? (
+                <div className="flex items-center gap-4">
+                  <button
+                    type="submit"
+                    disabled={saving || !isDirty}
+                    className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-md transition disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {saving ? "Guardando..." : "Guardar Cambios"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={cancelEditing}
+                    disabled={saving}
+                    className="bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2 px-4 rounded-md transition disabled:opacity-50"
+                  >
+                    Cancelar
+                  </button>
+                  {isDirty && !saving && (
+                    <span className="text-sm text-amber-600">Cambios sin guardar</span>
+                  )}
+                </div>
+              ) : (
+                <div className="flex gap-4">
+                  <button
+                    type="button"
+                    onClick={startEditing}
+                    className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-md transition"
+                  >
+                    Editar Perfil
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setFeedback(null);
+                      setChangingPassword(true);
+                    }}
+                    className="bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2 px-4 rounded-md transition"
+                  >
+                    Cambiar Contraseña
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleLogout}
+                    className="ml-auto bg-red-50 hover:bg-red-100 text-red-700 font-medium py-2 px-4 rounded-md transition"
+                  >
+                    Cerrar Sesión
+                  </button>
+                </div>
+              )}
             </div>
           </div>
-        </div>
+        </form>
       </div>
+
+      {changingPassword && (
+        <ChangePasswordModal onClose={() => setChangingPassword(false)} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,38 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "../../lib/queryKeys";
+import { useAuth } from "../auth/useAuth";
+import {
+  identityApi,
+  type UpdateProfileRequest,
+  type UserDetailResponse,
+} from "../auth/identityApi";
+
+export function useMyProfile() {
+  return useQuery({
+    queryKey: queryKeys.me,
+    queryFn: identityApi.getMyProfile,
+  });
+}
+
+export function useUpdateMyProfile() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: identityApi.updateMyProfile,
+    onSuccess: (user, request: UpdateProfileRequest) => {
+      // El PUT devuelve UserResponse, sin teléfono: se toma del request
+      queryClient.setQueryData<UserDetailResponse>(queryKeys.me, (old) =>
+        old && { ...old, userName: user.userName, phoneNumber: request.phoneNumber }
+      );
+      return queryClient.invalidateQueries({ queryKey: queryKeys.me });
+    },
+  });
+}
+
+export function useChangeMyPassword() {
+  return useMutation({ mutationFn: identityApi.changeMyPassword });
+}
+
+export function useRevokeOtherSessions() {
+  const { revokeOtherSessions } = useAuth();
+  return useMutation({ mutationFn: revokeOtherSessions });
+}
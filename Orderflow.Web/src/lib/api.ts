@@ -1,6 +1,132 @@
-import axios from "axios";
+import axios, { type AxiosResponse } from "axios";
 import { config } from "./config";
+import { tokenStorage } from "./storage";
+import type { PaginatedResponse } from "./types";
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    // 401 que la propia petición espera y gestiona (p. ej. contraseña actual incorrecta);
+    // cualquier otro 401 sigue cerrando la sesión
+    isExpectedUnauthorized?: (error: AxiosError) => boolean;
+  }
+}
 
 export const api = axios.create({
   baseURL: config.apiBaseUrl,
 });
+
+// Adjunta el JWT de la sesión actual a todas las peticiones
+api.interceptors.request.use((request) => {
+  const token = tokenStorage.get();
+  if (token) {
+    request.headers.Authorization = `Bearer ${token}`;
+  }
+  return request;
+});
+
+let unauthorizedHandler: (() => void) | null = null;
+
+// Permite a la capa de sesión reaccionar a un 401 sin acoplar api.ts a React
+export function setUnauthorizedHandler(handler: (() => void) | null) {
+  unauthorizedHandler = handler;
+}
+
+// Un 401 en una petición autenticada significa que el token ya no es válido.
+// Los 401 sin token (p. ej. credenciales incorrectas en el login) se ignoran.
+api.interceptors.response.use(undefined, (error) => {
+  if (
+    axios.isAxiosError(error) &&
+    error.response?.status === 401 &&
+    error.config?.headers?.Authorization &&
+    !error.config.isExpectedUnauthorized?.(error)
+  ) {
+    unauthorizedHandler?.();
+  }
+  return Promise.reject(error);
+});
+
+// Extrae los mensajes de error de los distintos formatos del backend:
+// ProblemDetails, ValidationProblemDetails o listas de strings (AuthController)
+export function getApiErrorMessages(err: unknown): string[] {
+  if (!axios.isAxiosError(err)) {
+    return [];
+  }
+
+  const data = err.response?.data;
+  if (Array.isArray(data)) {
+    return data.filter((m): m is string => typeof m === "string");
+  }
+  if (!data || typeof data !== "object") {
+    return [];
+  }
+
+  if (typeof data.message === "string" && data.message) {
+    return [data.message];
+  }
+  if (Array.isArray(data.errors) && data.errors.length > 0) {
+    return data.errors;
+  }
+  if (data.errors && typeof data.errors === "object") {
+    const messages = Object.values(data.errors as Record<string, string[]>).flat();
+    if (messages.length > 0) {
+      return messages;
+    }
+  }
+  if (typeof data.detail === "string" && data.detail) {
+    return [data.detail];
+  }
+  if (typeof data.title === "string" && data.title) {
+    return [data.title];
+  }
+
+  return [];
+}
+
+// Errores por campo de un ValidationProblemDetails, con las claves en camelCase
+// para que coincidan con los nombres de los campos del formulario
+export function getApiFieldErrors(err: unknown): Record<string, string> {
+  if (!axios.isAxiosError(err)) {
+    return {};
+  }
+
+  const errors = err.response?.data?.errors;
+  if (!errors || typeof errors !== "object" || Array.isArray(errors)) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(errors as Record<string, string[]>).map(([key, messages]) => [
+      key.charAt(0).toLowerCase() + key.slice(1),
+      messages.join(", "),
+    ])
+  );
+}
+
+export function getApiErrorMessage(err: unknown, fallback: string): string {
+  const messages = getApiErrorMessages(err);
+  return messages.length > 0 ? messages.join(", ") : fallback;
+}
+
+// Los listados del catálogo devuelven un array y la paginación en las cabeceras
+// X-Total-Count, X-Page y X-Page-Size (expuestas por CORS en el gateway)
+export function toPaginatedResponse<T>(response: AxiosResponse<T[]>): PaginatedResponse<T> {
+  const data = response.data;
+  const readHeader = (name: string) => {
+    const value = Number(response.headers[name]);
+    return Number.isFinite(value) && value > 0 ? value : null;
+  };
+
+  const page = readHeader("x-page") ?? 1;
+  const pageSize = readHeader("x-page-size") ?? Math.max(data.length, 1);
+  const totalCount = readHeader("x-total-count") ?? data.length;
+
+  return {
+    data,
+    pagination: {
+      page,
+      pageSize,
+      totalCount,
+      totalPages: Math.ceil(totalCount / pageSize),
+    },
+  };
+}
@@ -0,0 +1,77 @@
+// CSV según RFC 4180: separador coma, campos entre comillas cuando hace falta
+
+type CsvValue = string | number | boolean | null | undefined;
+
+// Evita que Excel interprete como fórmula un valor que empieza por = + - @, tabulador o
+// retorno de carro (lista de OWASP de CSV injection)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvRow(values: CsvValue[]): string {
+  return values.map(escapeCsvValue).join(",") + "\r\n";
+}
+
+// Los fragmentos se van añadiendo al Blob sin construir un único string gigante.
+// El BOM hace que Excel detecte UTF-8 (acentos).
+export function downloadCsv(filename: string, chunks: string[]) {
+  const blob = new Blob(["\uFEFF", ...chunks], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Sin BOM de Excel
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Las líneas vacías no son filas
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
@@ -0,0 +1,34 @@
+// Decodificación mínima del payload de un JWT (sin verificar la firma,
+// que es responsabilidad del gateway)
+
+export interface JwtPayload {
+  sub?: string;
+  email?: string;
+  exp?: number;
+  [claim: string]: unknown;
+}
+
+export function decodeJwt(token: string): JwtPayload | null {
+  const [, payload] = token.split(".");
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "=");
+    const json = decodeURIComponent(
+      atob(padded)
+        .split("")
+        .map((c) => "%" + c.charCodeAt(0).toString(16).padStart(2, "0"))
+        .join("")
+    );
+    return JSON.parse(json) as JwtPayload;
+  } catch {
+    return null;
+  }
+}
+
+// Fecha de expiración en milisegundos a partir del claim "exp"
+export function getTokenExpiry(token: string): number | null {
+  const exp = decodeJwt(token)?.exp;
+  return typeof exp === "number" ? exp * 1000 : null;
+}
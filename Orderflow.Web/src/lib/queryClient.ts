@@ -0,0 +1,20 @@
+import axios from "axios";
+import { QueryClient } from "@tanstack/react-query";
+
+const MAX_RETRIES = 2;
+
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      // Los datos se reutilizan al navegar entre páginas sin volver a mostrar el spinner
+      staleTime: 30_000,
+      // Reintentar un 4xx no cambia el resultado
+      retry: (failureCount, error) => {
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        if (status !== undefined && status >= 400 && status < 500) return false;
+        return failureCount < MAX_RETRIES;
+      },
+      refetchOnWindowFocus: false,
+    },
+  },
+});
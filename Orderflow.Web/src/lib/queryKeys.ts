@@ -0,0 +1,41 @@
+import type { ProductQueryParams, CategoryQueryParams } from "../features/catalog/catalogApi";
+import type { AdminOrderQueryParams, UserQueryParameters } from "../features/admin/adminApi";
+import type { PaginationQuery } from "./types";
+
+// Esquema único de claves: el primer segmento permite invalidar por recurso
+export const queryKeys = {
+  products: {
+    all: ["products"] as const,
+    list: (params: ProductQueryParams) => ["products", "list", params] as const,
+    detail: (id: number) => ["products", "detail", id] as const,
+    stock: (id: number) => ["products", "detail", id, "stock"] as const,
+  },
+  categories: {
+    all: ["categories"] as const,
+    list: (params: CategoryQueryParams) => ["categories", "list", params] as const,
+    everything: () => ["categories", "everything"] as const,
+    detail: (id: number) => ["categories", "detail", id] as const,
+  },
+  orders: {
+    all: ["orders"] as const,
+    mine: () => ["orders", "mine"] as const,
+    detail: (id: number) => ["orders", "detail", id] as const,
+  },
+  me: ["users", "me"] as const,
+  adminUsers: {
+    all: ["admin", "users"] as const,
+    list: (params: UserQueryParameters) => ["admin", "users", "list", params] as const,
+    detail: (userId: string) => ["admin", "users", "detail", userId] as const,
+  },
+  adminRoles: {
+    all: ["admin", "roles"] as const,
+    list: () => ["admin", "roles", "list"] as const,
+    users: (roleId: string, params: PaginationQuery) =>
+      ["admin", "roles", "users", roleId, params] as const,
+  },
+  adminOrders: {
+    all: ["admin", "orders"] as const,
+    list: (params: AdminOrderQueryParams) => ["admin", "orders", "list", params] as const,
+    detail: (id: number) => ["admin", "orders", "detail", id] as const,
+  },
+};
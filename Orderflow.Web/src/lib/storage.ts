@@ -1,14 +1,79 @@
-const ACCESS_TOKEN_KEY = "orderflow.access_token";
+import type { LoginResponse } from "../features/auth/identityApi";
+import type { CartItem } from "../features/cart/CartContext";
+import { getTokenExpiry } from "./jwt";
 
-export const tokenStorage = {
-  get(): string | null {
-    return localStorage.getItem(ACCESS_TOKEN_KEY);
+const SESSION_KEY = "orderflow.session";
+const CART_KEY = "orderflow.cart";
+const LOW_STOCK_THRESHOLD_KEY = "orderflow.lowStockThreshold";
+
+// Sesión completa devuelta por POST /auth/login más el instante de expiración
+export interface AuthSession extends LoginResponse {
+  expiresAt: number;
+}
+
+export function createSession(response: LoginResponse): AuthSession {
+  return {
+    ...response,
+    expiresAt:
+      getTokenExpiry(response.accessToken) ?? Date.now() + response.expiresIn * 1000,
+  };
+}
+
+export const authStorage = {
+  key: SESSION_KEY,
+  get(): AuthSession | null {
+    const raw = localStorage.getItem(SESSION_KEY);
+    if (!raw) return null;
+    try {
+      return JSON.parse(raw) as AuthSession;
+    } catch {
+      localStorage.removeItem(SESSION_KEY);
+      return null;
+    }
+  },
+  set(session: AuthSession) {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  },
+  clear() {
+    localStorage.removeItem(SESSION_KEY);
+  },
+};
+
+export const cartStorage = {
+  key: CART_KEY,
+  get(): CartItem[] {
+    const raw = localStorage.getItem(CART_KEY);
+    if (!raw) return [];
+    try {
+      const items = JSON.parse(raw);
+      return Array.isArray(items) ? (items as CartItem[]) : [];
+    } catch {
+      localStorage.removeItem(CART_KEY);
+      return [];
+    }
   },
-  set(token: string) {
-    localStorage.setItem(ACCESS_TOKEN_KEY, token);
+  set(items: CartItem[]) {
+    localStorage.setItem(CART_KEY, JSON.stringify(items));
   },
   clear() {
-    localStorage.removeItem(ACCESS_TOKEN_KEY);
+    localStorage.removeItem(CART_KEY);
+  },
+};
+
+// Umbral de resaltado de la consola de inventario; no afecta a la tienda
+export const lowStockThresholdStorage = {
+  get(): number | null {
+    const value = Number(localStorage.getItem(LOW_STOCK_THRESHOLD_KEY));
+    return Number.isInteger(value) && value > 0 ? value : null;
+  },
+  set(threshold: number) {
+    localStorage.setItem(LOW_STOCK_THRESHOLD_KEY, threshold.toString());
+  },
+};
+
+export const tokenStorage = {
+  get(): string | null {
+    return authStorage.get()?.accessToken ?? null;
   },
 };
-//para recuperar jwt del local storage
\ No newline at end of file
+//para recuperar jwt del local storage
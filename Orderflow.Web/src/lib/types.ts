@@ -0,0 +1,18 @@
+// Tipos compartidos entre servicios (Orderflow.Shared.Common)
+
+export interface PaginationMetadata {
+  page: number;
+  pageSize: number;
+  totalCount: number;
+  totalPages: number;
+}
+
+export interface PaginatedResponse<T> {
+  data: T[];
+  pagination: PaginationMetadata;
+}
+
+export interface PaginationQuery {
+  page?: number;
+  pageSize?: number;
+}